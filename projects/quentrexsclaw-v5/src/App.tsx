@@ -1,21 +1,29 @@
 /**
  * QuentrexClaw v5.1 — Main App
  * Zero-cost ICT/SMC trading system. Browser-only. No backend.
- * Real-time Binance Futures WebSocket + rule-based 5-agent council.
+ * Real-time Binance Futures WebSocket + rule-based 6-agent council.
  */
 
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import type { Trade, Signal, SetupGrade, AgentName, Timeframe, BacktestResult } from './types';
-import { useMarketData } from './hooks/useMarketData';
+import type { Trade, Signal, SetupGrade, SetupType, AgentName, Timeframe, BacktestResult, SwingPoint } from './types';
+import { useMarketData, useMultiTimeframeCandles, useCorrelatedCandles } from './hooks/useMarketData';
 import { useKillzone } from './hooks/useKillzone';
-import {
-  detectSwings, detectMarketStructure, detectOrderBlocks,
-  detectFVGs, calcPDArray,
-} from './utils/ict';
-import { detectLiquiditySweeps, detectSweepFVGSetups } from './utils/liquidity';
+import { IctEngine, DEFAULT_ENGINE_OPTIONS } from './utils/engine';
+import { isFVGActive, takeProfits, detectSwings } from './utils/ict';
+import { buildConfluenceMap, confluenceEdge, zoneKinds } from './utils/confluence';
+import { poolLabel, sweepLabel } from './utils/liquidity';
+import { recentVWAPEvents } from './utils/vwap';
+import { mergeBooks, bookImbalance, createWallTracker, updateWallTracker, recentSpoofs, wallLevels } from './utils/orderbook';
+import type { WallTracker } from './utils/orderbook';
+import { createLiquidationModel, updateLiquidationModel, liquidationHeatmap, liquidationLevels } from './utils/liquidation';
+import type { LiquidationModel } from './utils/liquidation';
+import { classifyPositioning, lastSweptLevel } from './utils/positioning';
+import { assessSweepFlow } from './utils/flow';
+import { smtPeers, detectSMT, smtFor } from './utils/smt';
+import { htfChain, calcHTFBias, combineHTFBias } from './utils/bias';
 import {
   runStructureAgent, runLiquidityAgent, runArrayAgent,
-  runRiskAgent, runExecutionAgent, runCouncil,
+  runRiskAgent, runExecutionAgent, runPositioningAgent, runCouncil,
   gradeColor, scoreColor,
 } from './utils/agents';
 import { runBacktest } from './hooks/useKillzone';
@@ -86,10 +94,10 @@ function Sparkline({ data, color, h = 40 }: { data: number[]; color: string; h?:
 
 const AGENT_COLORS: Record<AgentName, string> = {
   STRUCTURE: '#00ff41', LIQUIDITY: '#00cfff', ARRAY: '#9945ff',
-  RISK: '#ff9500', EXECUTION: '#ff0055',
+  RISK: '#ff9500', EXECUTION: '#ff0055', POSITIONING: '#f7d31a',
 };
 const AGENT_ICONS: Record<AgentName, string> = {
-  STRUCTURE: '⬡', LIQUIDITY: '◈', ARRAY: '◉', RISK: '⬢', EXECUTION: '▶',
+  STRUCTURE: '⬡', LIQUIDITY: '◈', ARRAY: '◉', RISK: '⬢', EXECUTION: '▶', POSITIONING: '⇅',
 };
 
 function AgentMeter({ agent, score, details, reasoning }: {
@@ -150,7 +158,7 @@ export default function App() {
   const [execMode, setExecMode]   = useState<'SIMULATE' | 'REAL'>('SIMULATE');
   const [balance]                 = useState(1000);
   const [trades, setTrades]       = useState<Trade[]>([]);
-  const [logs, setLogs]           = useState<string[]>(['[SYSTEM] QuentrexClaw v5.1 initialized.', '[ICT] Rule-based 5-agent council ready.']);
+  const [logs, setLogs]           = useState<string[]>(['[SYSTEM] QuentrexClaw v5.1 initialized.', '[ICT] Rule-based 6-agent council ready.']);
   const [confirmText, setConfirmText] = useState('');
   const [showConfirm, setShowConfirm] = useState(false);
   const [priceDir, setPriceDir]   = useState<'up' | 'down' | null>(null);
@@ -160,45 +168,142 @@ export default function App() {
 
   const pairInfo = PAIRS.find(p => p.symbol === pair)!;
   const { killzone, mmtStr, mmtDate, nextKZ } = useKillzone();
-  const { candles, ticker, orderBook, connected, loading, error, refresh } = useMarketData(pair, tf);
+  const [vwapAnchor, setVwapAnchor] = useState<number | null>(null); // swing time for the SWING VWAP
+  const [withFlow, setWithFlow]   = useState(false); // @aggTrade subscription for delta / CVD
+  useEffect(() => setVwapAnchor(null), [pair, tf]);
+  const { candles, ticker, orderBook, deepBook, oiHistory, vwap, vwapEvents, deltas, connected, loading, error, refresh } = useMarketData(pair, tf, vwapAnchor, withFlow);
 
-  // ── ICT Analysis (memoized — only recompute when candles change) ──
+  // ── ICT Analysis (streaming — each closed candle is ingested once) ──
+  const engineRef = useRef<{ key: string; engine: IctEngine } | null>(null);
+  const engineKey = `${pair}_${tf}`;
+  const lastClosedTime = candles.length > 1 ? candles[candles.length - 2].time : 0;
   const analysis = useMemo(() => {
     if (candles.length < 50) return null;
-    const swings    = detectSwings(candles, 5, 5);
-    const structure = detectMarketStructure(candles, swings);
-    const obs       = detectOrderBlocks(candles, structure, tf);
-    const fvgs      = detectFVGs(candles, tf);
-    const pdArray   = calcPDArray(swings, candles[candles.length - 1]?.close ?? 0);
-    const levels    = detectLiquiditySweeps(candles, tf, 5, 5);
-    const setups    = detectSweepFVGSetups(candles, levels, 0.03);
-    return { swings, structure, obs, fvgs, pdArray, levels, setups };
-  }, [candles.length > 0 ? candles[candles.length - 1].time : 0, tf]);
+    if (engineRef.current?.key !== engineKey) engineRef.current = { key: engineKey, engine: new IctEngine(tf) };
+    const { engine } = engineRef.current;
+    engine.sync(candles.slice(0, -1)); // last candle is still forming
+    return engine.snapshot(candles[candles.length - 1].close);
+  }, [engineKey, lastClosedTime]);
+
+  // ── Order-book walls (tracked across depth updates, reset per pair) ──
+  const wallRef = useRef<{ key: string; tracker: WallTracker } | null>(null);
+  const book = useMemo(() => {
+    const merged = mergeBooks(deepBook, orderBook);
+    const price = ticker?.price;
+    // Book / ticker still hold the previous pair's data for a render after a switch
+    if (!merged || !price || merged.symbol !== pair || ticker?.symbol !== pair) return null;
+    if (wallRef.current?.key !== pair) wallRef.current = { key: pair, tracker: createWallTracker() };
+    const { tracker } = wallRef.current;
+    updateWallTracker(tracker, merged, price, merged.timestamp);
+    return {
+      imbalance: bookImbalance(merged, price),
+      walls: [...tracker.walls],
+      spoofs: recentSpoofs(tracker, merged.timestamp - 5 * 60000),
+      levels: wallLevels(tracker.walls, tf, merged.timestamp),
+    };
+  }, [orderBook, deepBook, ticker?.price, ticker?.symbol, pair, tf]);
+
+  // ── Liquidation heatmap (OI samples fed once each; rebuilt per pair and when older history lands in front) ──
+  const liqRef = useRef<{ key: string; first: number; model: LiquidationModel } | null>(null);
+  const liquidations = useMemo(() => {
+    const first = oiHistory[0]?.time ?? Infinity;
+    if (liqRef.current?.key !== pair || first < liqRef.current.first) {
+      liqRef.current = { key: pair, first, model: createLiquidationModel() };
+    }
+    liqRef.current.first = first;
+    const { model } = liqRef.current;
+    for (const sample of oiHistory) {
+      if (!model.last || sample.time > model.last.time) updateLiquidationModel(model, sample);
+    }
+    return liquidationHeatmap(model);
+  }, [oiHistory, pair]);
+  const liqLevels = useMemo(
+    () => (ticker?.price ? liquidationLevels(liquidations, ticker.price, tf) : []),
+    [liquidations, ticker?.price, tf]
+  );
+
+  const lastSweep = useMemo(() => (analysis ? lastSweptLevel(analysis.levels) : null), [analysis]);
+
+  // ── Funding / OI regime ──
+  const positioning = useMemo(
+    () => classifyPositioning(oiHistory, ticker?.fundingRate ?? null, lastSweep),
+    [oiHistory, ticker?.fundingRate, lastSweep]
+  );
+
+  // ── Aggressor flow at the last sweep (closed candles; re-read as trades land in the delta buckets) ──
+  const sweepFlow = useMemo(
+    () => (withFlow && lastSweep ? assessSweepFlow(candles.slice(0, -1), deltas, lastSweep) : null),
+    [withFlow, lastSweep, candles, deltas]
+  );
+  const lastDelta = deltas[deltas.length - 1];
+
+  // ── HTF Bias (parent timeframes from MTF_CONFIGS) ──
+  const htfTimeframes = useMemo(() => htfChain(tf), [tf]);
+  const htfCandles = useMultiTimeframeCandles(pair, htfTimeframes);
+  const htfBias = useMemo(() => combineHTFBias(
+    htfTimeframes.filter(t => htfCandles[t]?.length).map(t => calcHTFBias(htfCandles[t], t))
+  ), [htfCandles, htfTimeframes]);
+
+  // ── Confluence map: this timeframe + the HTF chain (HTF engines rebuilt on each 5m refresh) ──
+  const htfAnalyses = useMemo(() => htfTimeframes
+    .filter(t => (htfCandles[t]?.length ?? 0) >= 50)
+    .map(t => {
+      const engine = new IctEngine(t);
+      engine.sync(htfCandles[t].slice(0, -1));
+      return { timeframe: t, arrays: engine.snapshot() };
+    }), [htfCandles, htfTimeframes]);
+  const confluence = useMemo(() => {
+    if (!analysis || !ticker?.price) return null;
+    const levels = [...analysis.levels, ...(book?.levels ?? []), ...liqLevels]; // + resting walls and liquidation clusters
+    return buildConfluenceMap([{ timeframe: tf, arrays: { ...analysis, levels } }, ...htfAnalyses], ticker.price);
+  }, [analysis, book, liqLevels, htfAnalyses, ticker?.price, tf]);
+
+  // ── SMT divergence against correlated pairs (same timeframe) ──
+  const smtSymbols = useMemo(() => smtPeers(pair), [pair]);
+  const peerCandles = useCorrelatedCandles(smtSymbols, tf);
+  const smt = useMemo(() => {
+    if (!analysis) return [];
+    const { swingLeft, swingRight } = DEFAULT_ENGINE_OPTIONS;
+    const swingSets: Record<string, SwingPoint[]> = { [pair]: analysis.swings };
+    for (const s of smtSymbols) {
+      if (peerCandles[s]?.length) swingSets[s] = detectSwings(peerCandles[s].slice(0, -1), swingLeft, swingRight);
+    }
+    return smtFor(detectSMT(swingSets, tf), pair);
+  }, [analysis, peerCandles, smtSymbols, pair, tf]);
 
   // ── Agent Council ──
   const council = useMemo(() => {
-    if (!analysis || !ticker?.price) return null;
+    if (!analysis || !confluence || !ticker?.price) return null;
     const setup = analysis.setups[0];
-    const dir = setup?.direction ?? ((ticker.change24h ?? 0) >= 0 ? 'LONG' : 'SHORT');
+    // No sweep→FVG setup: fall back to the latest retested breaker
+    const breaker = setup ? undefined : analysis.breakers
+      .filter(b => b.kind === 'BREAKER' && b.state === 'RETESTED').pop();
+    const breakerDir = breaker ? (breaker.type === 'BULLISH' ? 'LONG' : 'SHORT') : undefined;
+    const dir = setup?.direction ?? breakerDir ?? ((ticker.change24h ?? 0) >= 0 ? 'LONG' : 'SHORT');
+    const setupType: SetupType = breaker ? 'BREAKER_BLOCK' : 'LIQUIDITY_SWEEP_FVG';
     const price = ticker.price;
-    const atr = price * 0.007;
-    const entry = setup?.fvgEntry ?? price;
-    const sl    = setup?.stopLoss ?? (dir === 'LONG' ? price - atr * 1.3 : price + atr * 1.3);
-    const tp1   = dir === 'LONG' ? entry + atr * 2.5 : entry - atr * 2.5;
-    const tp2   = dir === 'LONG' ? entry + atr * 5.0 : entry - atr * 5.0;
+    const atr = analysis.volatility.atr;
+    const breakerEdge = breaker ? (breaker.type === 'BULLISH' ? breaker.top : breaker.bottom) : null;
+    const entry = setup?.fvgEntry ?? breakerEdge ?? price;
+    const obEdge = breakerEdge ?? confluenceEdge(confluence, dir, entry);
+    const sl    = setup?.stopLoss
+      ?? (breaker ? (breaker.type === 'BULLISH' ? breaker.bottom - atr * 0.2 : breaker.top + atr * 0.2) : null)
+      ?? (dir === 'LONG' ? price - atr * 1.3 : price + atr * 1.3);
+    const [tp1, tp2] = takeProfits(analysis.ote, dir, entry, atr);
 
     const agents = [
-      runStructureAgent(candles, analysis.structure, dir),
-      runLiquidityAgent(analysis.levels, price, dir),
-      runArrayAgent(analysis.obs, analysis.fvgs, analysis.pdArray, price, dir),
+      runStructureAgent(candles, analysis.structure, dir, htfBias, analysis.narrative, smt),
+      runLiquidityAgent(analysis.levels, confluence, dir, analysis.vaReclaim, recentVWAPEvents(vwapEvents, lastClosedTime, tf), sweepFlow),
+      runArrayAgent(confluence, analysis.pdArray, price, dir, htfBias, analysis.dealingRange.internal),
       runRiskAgent(killzone, balance, trades.filter(t => {
         const today = new Date(); const td = new Date(t.executedAt);
         return td.toDateString() === today.toDateString();
       }).length, entry, sl, tp1, false),
-      runExecutionAgent(candles, entry, sl, tp1, tp2, dir, setup?.fvgEntry ?? null, null),
+      runExecutionAgent(candles, analysis.volatility.atr, entry, sl, tp1, tp2, dir, setup?.fvgEntry ?? null, obEdge, analysis.ote),
+      runPositioningAgent(positioning, dir),
     ];
-    return { council: runCouncil(agents), entry, sl, tp1, tp2, dir: dir as 'LONG' | 'SHORT', rr: Math.abs(tp1 - entry) / Math.abs(entry - sl) };
-  }, [analysis, ticker?.price, killzone?.name, trades.length]);
+    return { council: runCouncil(agents), setupType, entry, sl, tp1, tp2, dir: dir as 'LONG' | 'SHORT', rr: Math.abs(tp1 - entry) / Math.abs(entry - sl) };
+  }, [analysis, confluence, positioning, sweepFlow, htfBias, smt, vwapEvents, ticker?.price, killzone?.name, trades.length]);
 
   // ── Log helper ──
   const addLog = useCallback((msg: string) => {
@@ -230,14 +335,14 @@ export default function App() {
     }
     setShowConfirm(false); setConfirmText('');
     if (balance < 30) { addLog('[RISK] ❌ Balance < $30 — PAUSED'); return; }
-    const { entry, sl, tp1, tp2, dir, rr } = council;
+    const { setupType, entry, sl, tp1, tp2, dir, rr } = council;
     const risk = balance * 0.005;
     const t: Trade = {
       id: `trade_${Date.now()}`,
       timestamp: Date.now(),
       pair, timeframe: tf,
       direction: dir,
-      setupType: 'LIQUIDITY_SWEEP_FVG',
+      setupType,
       grade: council.council.grade,
       entry, stopLoss: sl, tp1, tp2,
       rr: parseFloat(rr.toFixed(2)),
@@ -378,6 +483,12 @@ export default function App() {
             background: tf === t ? 'rgba(0,207,255,0.08)' : 'transparent',
           }}>{t}</button>
         ))}
+        <button className="btn" onClick={() => setWithFlow(f => !f)} title="Stream aggressor trades for delta / CVD" style={{
+          padding: '3px 8px', fontSize: 9, fontFamily: 'Orbitron, monospace', marginLeft: 4,
+          color: withFlow ? C.blue : C.dim,
+          border: withFlow ? `1px solid ${C.blue}44` : `1px solid ${C.border}22`,
+          background: withFlow ? 'rgba(0,207,255,0.08)' : 'transparent',
+        }}>FLOW</button>
         <div style={{ width: 1, height: 14, background: C.border, margin: '0 6px' }} />
         <span style={{ fontSize: 9, color: C.dim }}>BAL:</span>
         <span style={{ fontFamily: 'Orbitron, monospace', fontSize: 11, color: C.green, marginLeft: 4 }}>${balance.toFixed(0)}</span>
@@ -434,10 +545,22 @@ export default function App() {
                 {analysis ? (
                   <>
                     {[
+                      ['Swings',        `${analysis.swings.length} + ${analysis.provisionalSwings.length} live`, C.green],
                       ['Structure Pts', analysis.structure.length, C.green],
-                      ['Active OBs',    analysis.obs.filter(o => !o.mitigated).length, '#9945ff'],
-                      ['Open FVGs',     analysis.fvgs.filter(f => !f.filled).length, C.blue],
+                      ['Active OBs',    `${analysis.obs.filter(o => !o.mitigated).length} · ${analysis.obs.filter(o => !o.mitigated && o.mitigationState === 'MEAN_THRESHOLD').length} @ 50%`, '#9945ff'],
+                      ['Open FVGs',     analysis.fvgs.filter(isFVGActive).length, C.blue],
+                      ['Inverse FVGs',  analysis.ifvgs.filter(isFVGActive).length, C.red],
+                      ['VI / Voids',    `${analysis.volumeImbalances.filter(isFVGActive).length} / ${analysis.liquidityVoids.filter(isFVGActive).length}`, C.blue],
                       ['Liq Levels',    analysis.levels.filter(l => l.status === 'ACTIVE').length, C.orange],
+                      ['Session Lvls',  analysis.levels.filter(l => l.status === 'ACTIVE' && l.source).length, C.orange],
+                      ['EQH / EQL',     `${analysis.levels.filter(l => l.status === 'ACTIVE' && poolLabel(l) === 'EQH').length} / ${analysis.levels.filter(l => l.status === 'ACTIVE' && poolLabel(l) === 'EQL').length}`, C.orange],
+                      ['Last SMT',      smt.length ? `${smt[smt.length - 1].type === 'BULLISH' ? 'BULL' : 'BEAR'} · ${smt[smt.length - 1].held.symbol.replace('USDT', '')} held` : '—', smt.length && smt[smt.length - 1].type === 'BULLISH' ? C.green : C.red],
+                      ['POC / VA',      analysis.volumeProfile ? `${fp(analysis.volumeProfile.poc)} · ${fp(analysis.volumeProfile.val)}–${fp(analysis.volumeProfile.vah)}` : '—', C.blue],
+                      ['HVN / LVN',     analysis.volumeProfile ? `${analysis.volumeProfile.hvn.length} / ${analysis.volumeProfile.lvn.length}${analysis.vaReclaim ? ` · ${analysis.vaReclaim.level} reclaim` : ''}` : '—', analysis.vaReclaim?.type === 'BEARISH' ? C.red : C.blue],
+                      ['Last Sweep',    lastSweep?.sweep ? `${lastSweep.type} · ${sweepLabel(lastSweep.sweep)}` : '—', lastSweep?.sweep?.kind === 'RUN' ? C.red : C.orange],
+                      ['Delta / CVD',   lastDelta ? `${lastDelta.delta >= 0 ? '+' : ''}${lastDelta.delta.toFixed(0)} · ${lastDelta.cvd >= 0 ? '+' : ''}${lastDelta.cvd.toFixed(0)}` : '—', (lastDelta?.delta ?? 0) >= 0 ? C.green : C.red],
+                      ['Sweep Flow',    sweepFlow ? `${sweepFlow.levelType} ${sweepFlow.verdict}${sweepFlow.absorption ? ' · ABS' : ''}${sweepFlow.divergence ? ' · DIV' : ''}` : '—', sweepFlow?.verdict === 'REJECTED' ? C.green : sweepFlow?.verdict === 'ACCEPTED' ? C.red : C.dim],
+                      ['ATR / Range',   `${analysis.volatility.atrPct.toFixed(2)}% · P${analysis.volatility.rangePercentile}`, C.blue],
                       ['A+/A Setups',   analysis.setups.filter(s => s.quality >= 70).length, C.green],
                     ].map(([l, v, c]) => (
                       <div key={l as string} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderBottom: `1px solid ${C.border}33` }}>
@@ -447,13 +570,84 @@ export default function App() {
                     ))}
                     {analysis.pdArray && (
                       <div style={{ marginTop: 8, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
-                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>PD ARRAY</div>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>
+                          {analysis.dealingRange.external ? `DEALING RANGE · ${analysis.dealingRange.external.direction}` : 'PD ARRAY'}
+                        </div>
                         <div style={{ fontSize: 10, color: analysis.pdArray.type === 'BULLISH' ? C.green : C.red }}>
                           {analysis.pdArray.type} BIAS
                         </div>
                         <div style={{ fontSize: 9, color: '#4a7', fontFamily: 'JetBrains Mono, monospace' }}>
                           EQ: {fp(analysis.pdArray.equilibrium)} | {analysis.pdArray.type === 'BULLISH' ? '↑' : '↓'}
                         </div>
+                        {analysis.dealingRange.internal && (
+                          <div style={{ fontSize: 8, color: '#4a7', fontFamily: 'JetBrains Mono, monospace' }}>
+                            INT: {fp(analysis.dealingRange.internal.low)} – {fp(analysis.dealingRange.internal.high)}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {htfBias && (
+                      <div style={{ marginTop: 6, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>HTF BIAS · {htfTimeframes.join(' / ')}</div>
+                        <div style={{ fontSize: 10, color: htfBias.bias === 'BULLISH' ? C.green : htfBias.bias === 'BEARISH' ? C.red : C.dim }}>
+                          {htfBias.bias} ({htfBias.score >= 0 ? '+' : ''}{htfBias.score})
+                        </div>
+                        <div style={{ fontSize: 8, color: '#4a7', fontFamily: 'JetBrains Mono, monospace', lineHeight: 1.4 }}>{htfBias.reason}</div>
+                      </div>
+                    )}
+                    {confluence && confluence.zones.length > 0 && (
+                      <div style={{ marginTop: 6, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>CONFLUENCE · {[tf, ...htfAnalyses.map(h => h.timeframe)].join(' / ')}</div>
+                        {confluence.zones.slice(0, 5).map(z => (
+                          <div key={z.id} title={z.contributors.map(c => c.label).join('\n')} style={{ marginBottom: 2 }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, fontFamily: 'JetBrains Mono, monospace', color: z.bias === 'BULLISH' ? C.green : z.bias === 'BEARISH' ? C.red : C.blue }}>
+                              <span>{fp(z.bottom)}–{fp(z.top)}</span>
+                              <span>{z.score} <span style={{ color: '#4a7' }}>{z.timeframes.join('+')} · {z.distancePct.toFixed(2)}%</span></span>
+                            </div>
+                            <div style={{ fontSize: 8, color: '#4a7' }}>{zoneKinds(z)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {analysis.narrative && (
+                      <div style={{ marginTop: 6, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>PO3 · DAILY</div>
+                        <div style={{ fontSize: 10, color: analysis.narrative.phase === 'DISTRIBUTION' ? (analysis.narrative.bias === 'BULLISH' ? C.green : C.red) : analysis.narrative.phase === 'MANIPULATION' ? C.orange : C.blue }}>
+                          {analysis.narrative.phase}{analysis.narrative.bias !== 'NEUTRAL' ? ` · ${analysis.narrative.bias}` : ''}
+                        </div>
+                        <div style={{ fontSize: 8, color: '#4a7', fontFamily: 'JetBrains Mono, monospace', lineHeight: 1.4 }}>{analysis.narrative.reason}</div>
+                      </div>
+                    )}
+                    {vwap.length > 0 && (
+                      <div style={{ marginTop: 6, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>ANCHORED VWAP · ±1σ</div>
+                        {vwap.map(v => (
+                          <div key={v.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, fontFamily: 'JetBrains Mono, monospace', color: (ticker?.price ?? v.vwap) >= v.vwap ? C.green : C.red }}>
+                            <span>{v.kind}</span>
+                            <span>{fp(v.vwap)} <span style={{ color: '#4a7' }}>{fp(v.lower[0])}–{fp(v.upper[0])}</span></span>
+                          </div>
+                        ))}
+                        <div style={{ display: 'flex', gap: 3, marginTop: 4, flexWrap: 'wrap' }}>
+                          {analysis.swings.slice(-4).map(sw => (
+                            <button key={sw.time} className="btn" onClick={() => setVwapAnchor(vwapAnchor === sw.time ? null : sw.time)} style={{
+                              padding: '1px 5px', fontSize: 8,
+                              color: vwapAnchor === sw.time ? C.blue : C.dim,
+                              border: vwapAnchor === sw.time ? `1px solid ${C.blue}44` : `1px solid ${C.border}22`,
+                              background: 'transparent',
+                            }}>{sw.type === 'HIGH' ? '▲' : '▼'} {fp(sw.price)}</button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {liqLevels.length > 0 && (
+                      <div style={{ marginTop: 6, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                        <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>LIQ HEATMAP · EST. FROM OI</div>
+                        {liqLevels.slice().sort((a, b) => b.price - a.price).map(l => (
+                          <div key={l.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, fontFamily: 'JetBrains Mono, monospace', color: l.type === 'HIGH' ? C.red : C.green }}>
+                            <span>{l.type === 'HIGH' ? 'SHORTS' : 'LONGS'} {fp(l.price)}</span>
+                            <span style={{ color: '#4a7' }}>{'█'.repeat(Math.max(1, Math.round((l.strength - 30) / 12)))}</span>
+                          </div>
+                        ))}
                       </div>
                     )}
                   </>
@@ -489,8 +683,8 @@ export default function App() {
             {orderBook && (
               <div className="card" style={{ maxWidth: 320 }}>
                 <div style={{ fontSize: 9, color: C.dim, letterSpacing: 2, marginBottom: 8 }}>◈ ORDERBOOK DEPTH</div>
-                {orderBook.asks.slice().reverse().map((l, i) => {
-                  const max = Math.max(...orderBook.asks.map(x => x.qty));
+                {orderBook.asks.slice(0, 10).reverse().map((l, i) => {
+                  const max = Math.max(...orderBook.asks.slice(0, 10).map(x => x.qty));
                   return (
                     <div key={i} style={{ display: 'flex', gap: 8, marginBottom: 1, position: 'relative' }}>
                       <div style={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: `${l.qty / max * 100}%`, background: 'rgba(255,0,85,0.08)' }} />
@@ -502,8 +696,8 @@ export default function App() {
                 <div style={{ textAlign: 'center', padding: '3px 0', fontFamily: 'Orbitron, monospace', fontSize: 12, color: pairInfo.color, background: 'rgba(0,0,0,0.4)', margin: '3px 0', borderRadius: 2 }}>
                   {fp(ticker?.price)} USDT
                 </div>
-                {orderBook.bids.map((l, i) => {
-                  const max = Math.max(...orderBook.bids.map(x => x.qty));
+                {orderBook.bids.slice(0, 10).map((l, i) => {
+                  const max = Math.max(...orderBook.bids.slice(0, 10).map(x => x.qty));
                   return (
                     <div key={i} style={{ display: 'flex', gap: 8, marginBottom: 1, position: 'relative' }}>
                       <div style={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: `${l.qty / max * 100}%`, background: 'rgba(0,255,65,0.07)' }} />
@@ -512,6 +706,21 @@ export default function App() {
                     </div>
                   );
                 })}
+                {book && (
+                  <div style={{ marginTop: 8, padding: '5px 7px', background: 'rgba(0,0,0,0.4)', borderRadius: 3 }}>
+                    <div style={{ fontSize: 8, color: C.dim, marginBottom: 3 }}>IMBALANCE ±{book.imbalance.pctRange}% · WALLS</div>
+                    <div style={{ fontSize: 10, color: book.imbalance.ratio >= 0 ? C.green : C.red }}>
+                      {book.imbalance.ratio >= 0 ? 'BID' : 'ASK'} {(Math.abs(book.imbalance.ratio) * 100).toFixed(0)}%
+                      {book.spoofs.length > 0 && <span style={{ color: C.orange }}> · {book.spoofs.length} spoof{book.spoofs.length > 1 ? 's' : ''} (5m)</span>}
+                    </div>
+                    {book.walls.slice().sort((a, b) => b.multiple - a.multiple).slice(0, 4).map(w => (
+                      <div key={w.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, fontFamily: 'JetBrains Mono, monospace', color: w.side === 'BID' ? C.green : C.red }}>
+                        <span>{w.side} {fp(w.price)}</span>
+                        <span style={{ color: '#4a7' }}>{w.qty.toFixed(0)} · {w.multiple.toFixed(1)}×</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -634,11 +843,12 @@ export default function App() {
             <div className="card" style={{ flex: '1 1 220px' }}>
               <div style={{ fontSize: 9, color: C.dim, letterSpacing: 2, marginBottom: 10 }}>◈ AGENT ARCHITECTURE</div>
               {[
-                ['STRUCTURE', 'BOS/CHoCH alignment, MSS confirmation, trend direction', '25%'],
-                ['LIQUIDITY', 'Sweep quality, HTF confluence, magnet strength', '25%'],
-                ['ARRAY',     'OB/FVG proximity, PD positioning, breaker blocks', '20%'],
-                ['RISK',      'Killzone gate, balance check, RR validation, news', '15%'],
-                ['EXECUTION', 'FVG/OB entry precision, SL placement, TP targets', '15%'],
+                ['STRUCTURE',   'BOS/CHoCH alignment, MSS confirmation, HTF bias', '23%'],
+                ['LIQUIDITY',   'Sweep quality, HTF confluence, magnet strength', '22%'],
+                ['ARRAY',       'MTF confluence map (OB/FVG/BPR/breakers/levels), PD positioning', '18%'],
+                ['RISK',        'Killzone gate, balance check, RR validation, news', '13%'],
+                ['EXECUTION',   'FVG/OB entry precision, SL placement, TP targets', '14%'],
+                ['POSITIONING', 'Funding / OI regime: crowding, squeeze fuel, flushes', '10%'],
               ].map(([name, desc, weight]) => (
                 <div key={name} style={{ marginBottom: 10, paddingBottom: 10, borderBottom: `1px solid ${C.border}22` }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 3 }}>
@@ -825,7 +1035,7 @@ export default function App() {
               <div style={{ display: 'flex', gap: 9, flexWrap: 'wrap' }}>
                 <div style={{ flex: '1 1 180px' }}>
                   <div style={{ fontSize: 10, color: C.green, marginBottom: 6 }}>✅ BUILD NOW (Browser)</div>
-                  {['Real-time WS data feed', 'ICT swing detection', 'OB/FVG/liquidity engine', '5-agent rule-based council', 'Signal generation A+/A', 'Browser backtest', 'MMT killzone manager', 'Trade journal (localStorage)'].map(i => (
+                  {['Real-time WS data feed', 'ICT swing detection', 'OB/FVG/liquidity engine', '6-agent rule-based council', 'Signal generation A+/A', 'Browser backtest', 'MMT killzone manager', 'Trade journal (localStorage)'].map(i => (
                     <div key={i} style={{ fontSize: 9, color: '#3a6a3a', marginBottom: 2 }}>✓ {i}</div>
                   ))}
                 </div>
@@ -845,7 +1055,7 @@ export default function App() {
       <div style={{ padding: '7px 16px', borderTop: `1px solid ${C.border}11`, display: 'flex', justifyContent: 'space-between', flexWrap: 'wrap', gap: 4, color: '#1a3a1a', fontSize: 8, fontFamily: 'JetBrains Mono, monospace' }}>
         <span>QuentrexClaw v5.1 © 2026 Peps Trading · Zero-cost ICT/SMC · Browser-only</span>
         <div style={{ display: 'flex', gap: 10 }}>
-          <span>Binance Futures WS + REST</span><span>15 Pairs</span><span>5-Agent Council</span>
+          <span>Binance Futures WS + REST</span><span>15 Pairs</span><span>6-Agent Council</span>
           <span style={{ color: connected ? C.green : '#333' }}>● {connected ? 'LIVE' : '...'}</span>
         </div>
       </div>
@@ -0,0 +1,17 @@
+import type { BacktestConfig } from '../types';
+import { runBacktest } from './useKillzone';
+import { walk } from '../utils/testCandles';
+
+const config: BacktestConfig = {
+  pair: 'SOLUSDT', timeframe: '15m', startDate: 0, endDate: 0, initialBalance: 1000, riskPerTrade: 1,
+};
+
+describe('runBacktest', () => {
+  it('finishes on duplicate and out-of-order candles', async () => {
+    const candles = walk(800);
+    const messy = [...candles.slice(0, 300), candles[299], candles[150], ...candles.slice(300)];
+    const result = await runBacktest(messy, config);
+    const times = result.trades.map(t => t.timestamp);
+    expect(times.every((t, k) => k === 0 || t > times[k - 1])).toBe(true);
+  });
+});
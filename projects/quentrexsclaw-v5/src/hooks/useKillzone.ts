@@ -3,23 +3,22 @@
  * Killzone management (MMT timezone) and browser-based backtest engine.
  */
 
-import { useState, useEffect, useRef } from 'react';
-import type { Killzone, KillzoneName, Candle, Trade, BacktestConfig, BacktestResult, BacktestMetrics, Timeframe } from '../types';
-import { detectSwings, detectMarketStructure, detectOrderBlocks, detectFVGs, calcPDArray } from '../utils/ict';
-import { detectLiquiditySweeps, detectSweepFVGSetups } from '../utils/liquidity';
+import { useState, useEffect } from 'react';
+import type { Killzone, Candle, Trade, BacktestConfig, BacktestResult, BacktestMetrics, Timeframe } from '../types';
+import { IctEngine } from '../utils/engine';
+import { takeProfits } from '../utils/ict';
+import { buildConfluenceMap, confluenceEdge } from '../utils/confluence';
+import { KILLZONE_DEFS, MMT_OFFSET_MIN } from '../utils/sessions';
+import { createVWAPTracker, updateVWAPTracker, recentVWAPEvents } from '../utils/vwap';
 import { runStructureAgent, runLiquidityAgent, runArrayAgent, runRiskAgent, runExecutionAgent, runCouncil } from '../utils/agents';
 
 // ─── KILLZONE DEFINITIONS (MMT = UTC+6:30) ────────────────────────────────────
 
-export const KILLZONE_DEFS: Omit<Killzone, 'active' | 'minutesRemaining'>[] = [
-  { name: 'AKZ',  label: 'Asian Killzone',     startH: 6,  startM: 30, endH: 10, endM: 0,  color: '#00ff41' },
-  { name: 'LKZ',  label: 'London Killzone',    startH: 13, startM: 0,  endH: 17, endM: 0,  color: '#00cfff' },
-  { name: 'NYKZ', label: 'New York Killzone',  startH: 18, startM: 15, endH: 22, endM: 15, color: '#ff9500' },
-];
+export { KILLZONE_DEFS }; // windows live in utils/sessions so the liquidity engine can share them
 
 export function getMMTTime(date = new Date()): Date {
   const utcMs = date.getTime() + date.getTimezoneOffset() * 60000;
-  return new Date(utcMs + 6.5 * 3600000); // UTC+6:30
+  return new Date(utcMs + MMT_OFFSET_MIN * 60000); // UTC+6:30
 }
 
 export function getActiveKillzone(mmtTime: Date): Killzone | null {
@@ -89,10 +88,17 @@ export async function runBacktest(
   // Minimum 100 candles needed for analysis
   if (candles.length < 100) throw new Error('Not enough candles for backtest');
 
-  // Walk-forward: analyze from index 50 onward (warmup period)
-  for (let i = 50; i < candles.length - 5; i++) {
-    const slice = candles.slice(0, i + 1);
-    const lastCandle = slice[slice.length - 1];
+  // Streaming engine sees each candle once — no O(n²) re-slicing
+  const engine = new IctEngine(timeframe);
+  const vwap = createVWAPTracker(timeframe);
+
+  // Walk-forward: every candle is ingested once, analysis from index 50 onward (warmup period)
+  let resumeAt = 50;
+  for (let i = 0; i < candles.length - 5; i++) {
+    if (!engine.push(candles[i])) continue; // duplicate / out-of-order candle
+    updateVWAPTracker(vwap, candles[i]);
+    if (i < resumeAt) continue;
+    const lastCandle = candles[i];
 
     // Check killzone (use candle time)
     const candleTime = new Date(lastCandle.time);
@@ -103,14 +109,9 @@ export async function runBacktest(
     // Don't over-analyze — check every 15 candles
     if (i % 15 !== 0) continue;
 
-    // ICT analysis on the slice
-    const swings = detectSwings(slice, 5, 5);
-    const structure = detectMarketStructure(slice, swings);
-    const obs = detectOrderBlocks(slice, structure, timeframe);
-    const fvgs = detectFVGs(slice, timeframe);
-    const pdArray = calcPDArray(swings, lastCandle.close);
-    const levels = detectLiquiditySweeps(slice, timeframe, 5, 5);
-    const setups = detectSweepFVGSetups(slice, levels, 0.03);
+    // ICT analysis up to (and including) this candle
+    const snap = engine.snapshot(lastCandle.close);
+    const { structure, pdArray, dealingRange, ote, narrative, volatility, vaReclaim, levels, setups } = snap;
 
     if (setups.length === 0) continue;
     const setup = setups[0]; // Best setup
@@ -118,20 +119,21 @@ export async function runBacktest(
     const direction = setup.direction;
     const entry  = setup.fvgEntry;
     const sl     = setup.stopLoss;
-    const atr    = lastCandle.close * 0.008;
-    const tp1    = direction === 'LONG' ? entry + atr * 2.5 : entry - atr * 2.5;
-    const tp2    = direction === 'LONG' ? entry + atr * 5.0 : entry - atr * 5.0;
+    const atr    = volatility.atr;
+    const [tp1, tp2] = takeProfits(ote, direction, entry, atr);
     const rr     = Math.abs(tp1 - entry) / Math.abs(entry - sl);
 
     if (rr < 2) continue; // Enforce RR filter
 
-    // Run agents
+    // Run agents (single-timeframe confluence map — no HTF history here); they only read the last 20 bars
+    const slice = candles.slice(Math.max(0, i - 19), i + 1);
+    const confluence = buildConfluenceMap([{ timeframe, arrays: snap }], lastCandle.close);
     const agents = [
-      runStructureAgent(slice, structure, direction),
-      runLiquidityAgent(levels, lastCandle.close, direction),
-      runArrayAgent(obs, fvgs, pdArray, lastCandle.close, direction),
+      runStructureAgent(slice, structure, direction, null, narrative),
+      runLiquidityAgent(levels, confluence, direction, vaReclaim, recentVWAPEvents(vwap.events, lastCandle.time, timeframe)),
+      runArrayAgent(confluence, pdArray, lastCandle.close, direction, null, dealingRange.internal),
       runRiskAgent(kz, balance, 0, entry, sl, tp1, false),
-      runExecutionAgent(slice, entry, sl, tp1, tp2, direction, setup.fvgEntry, null),
+      runExecutionAgent(slice, atr, entry, sl, tp1, tp2, direction, setup.fvgEntry, confluenceEdge(confluence, direction, entry), ote),
     ];
     const council = runCouncil(agents);
 
@@ -187,8 +189,8 @@ export async function runBacktest(
       mode: 'SIMULATE',
     } as Trade);
 
-    // Skip forward to avoid overlapping trades
-    i += 20;
+    // Skip forward to avoid overlapping trades (the engine still ingests the skipped candles)
+    resumeAt = i + 21;
   }
 
   return {
@@ -5,11 +5,21 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Candle, Ticker, OrderBook, Timeframe } from '../types';
+import type { Candle, Ticker, OrderBook, Timeframe, AnchoredVWAP, VWAPEvent, OISample, CandleDelta } from '../types';
+import { createVWAPTracker, updateVWAPTracker, setSwingAnchor, previewVWAP, vwapSnapshot } from '../utils/vwap';
+import type { VWAPTracker } from '../utils/vwap';
+import { createFlowTracker, addAggTrade, flowSnapshot } from '../utils/flow';
+import type { FlowTracker } from '../utils/flow';
 
 const BINANCE_REST  = 'https://fapi.binance.com';
 const BINANCE_WS    = 'wss://fstream.binance.com/ws';
 const BYBIT_REST    = 'https://api.bybit.com';
+const NO_OI_HISTORY: OISample[] = [];
+
+/** (Un)subscribe @aggTrade on an open socket — the other streams keep running */
+function subscribeFlow(ws: WebSocket, sym: string, on: boolean): void {
+  ws.send(JSON.stringify({ method: on ? 'SUBSCRIBE' : 'UNSUBSCRIBE', params: [`${sym}@aggTrade`], id: Date.now() }));
+}
 
 // ─── RATE LIMITER ─────────────────────────────────────────────────────────────
 // Binance: 1200 req/min = 20/sec. We stay under 600/min to be safe.
@@ -73,7 +83,7 @@ export async function fetchCandles(
   }));
 }
 
-/** Fetch top-of-book depth */
+/** Fetch book depth — Binance accepts 5/10/20/50/100/500/1000 levels */
 export async function fetchOrderBook(symbol: string, limit = 20): Promise<OrderBook> {
   const raw: { bids: [string, string][]; asks: [string, string][]; T: number } =
     await binanceFetch('/fapi/v1/depth', {
@@ -82,6 +92,7 @@ export async function fetchOrderBook(symbol: string, limit = 20): Promise<OrderB
     });
 
   return {
+    symbol: symbol.toUpperCase(),
     bids: raw.bids.map(([p, q]) => ({ price: parseFloat(p), qty: parseFloat(q) })),
     asks: raw.asks.map(([p, q]) => ({ price: parseFloat(p), qty: parseFloat(q) })),
     timestamp: raw.T,
@@ -111,6 +122,24 @@ export async function fetchFullTicker(symbol: string): Promise<Partial<Ticker>>
   } as Partial<Ticker>;
 }
 
+/**
+ * Open interest history (Binance keeps 30 days). Price per sample is
+ * recovered as OI value / OI contracts.
+ */
+export async function fetchOpenInterestHistory(symbol: string, period = '5m', limit = 288): Promise<OISample[]> {
+  const raw: { sumOpenInterest: string; sumOpenInterestValue: string; timestamp: number }[] =
+    await binanceFetch('/futures/data/openInterestHist', {
+      symbol: symbol.toUpperCase(),
+      period,
+      limit: limit.toString(),
+    });
+
+  return raw.map(r => {
+    const oi = parseFloat(r.sumOpenInterest);
+    return { time: r.timestamp, openInterest: oi, price: oi > 0 ? parseFloat(r.sumOpenInterestValue) / oi : 0 };
+  }).filter(r => r.price > 0);
+}
+
 // ─── BYBIT FALLBACK ───────────────────────────────────────────────────────────
 
 async function bybitFetchCandles(
@@ -138,29 +167,76 @@ async function bybitFetchCandles(
 export interface UseMarketDataReturn {
   candles: Candle[];
   ticker: Partial<Ticker> | null;
-  orderBook: OrderBook | null;
+  orderBook: OrderBook | null;   // live, 20 levels
+  deepBook: OrderBook | null;    // REST snapshot, 100 levels, refreshed every 15s
+  oiHistory: OISample[];         // 5m history, then one sample (with funding) per 60s refresh
+  vwap: AnchoredVWAP[];          // includes the forming candle
+  vwapEvents: VWAPEvent[];       // closed candles only, newest last
+  deltas: CandleDelta[];         // aggressor flow per candle since connect (empty unless withFlow)
   connected: boolean;
   loading: boolean;
   error: string | null;
   refresh: () => void;
 }
 
+/**
+ * `vwapAnchorTime` = open time of a swing to anchor the SWING VWAP at (null = none).
+ * `withFlow` also subscribes to @aggTrade for per-candle delta / CVD; toggling it
+ * (un)subscribes on the live socket without resetting anything else.
+ */
 export function useMarketData(
   symbol: string,
-  timeframe: Timeframe
+  timeframe: Timeframe,
+  vwapAnchorTime: number | null = null,
+  withFlow = false
 ): UseMarketDataReturn {
   const [candles, setCandles]     = useState<Candle[]>([]);
   const [ticker, setTicker]       = useState<Partial<Ticker> | null>(null);
   const [orderBook, setOrderBook] = useState<OrderBook | null>(null);
+  const [deepBook, setDeepBook]   = useState<OrderBook | null>(null);
+  const [oi, setOi]               = useState<{ symbol: string; samples: OISample[] }>({ symbol, samples: [] });
   const [connected, setConnected] = useState(false);
   const [loading, setLoading]     = useState(true);
   const [error, setError]         = useState<string | null>(null);
+  const [vwap, setVwap]           = useState<AnchoredVWAP[]>([]);
+  const [vwapEvents, setVwapEvents] = useState<VWAPEvent[]>([]);
+  const [deltas, setDeltas]       = useState<CandleDelta[]>([]);
 
   const wsRef      = useRef<WebSocket | null>(null);
   const reconnRef  = useRef<ReturnType<typeof setTimeout> | null>(null);
   const activeRef  = useRef(true);
   const symRef     = useRef(symbol);
   const tfRef      = useRef(timeframe);
+  const anchorRef  = useRef(vwapAnchorTime);
+  const vwapRef    = useRef<VWAPTracker>(createVWAPTracker(timeframe));
+  const closedRef  = useRef<Candle[]>([]);   // closed candles the VWAP tracker has seen
+  const flowRef    = useRef<FlowTracker>(createFlowTracker(timeframe));
+  const withFlowRef = useRef(withFlow);
+
+  // ── VWAP: seed from history, then commit each closed kline once ──
+  const seedVWAP = useCallback((c: Candle[]) => {
+    const tracker = createVWAPTracker(tfRef.current);
+    const closed = c.slice(0, -1); // last candle is still forming
+    for (const k of closed) updateVWAPTracker(tracker, k);
+    setSwingAnchor(tracker, closed, anchorRef.current);
+    vwapRef.current = tracker;
+    closedRef.current = closed;
+    setVwap(c.length ? previewVWAP(tracker, c[c.length - 1]) : []);
+    setVwapEvents(tracker.events);
+  }, []);
+
+  const applyKline = useCallback((candle: Candle, closed: boolean) => {
+    const tracker = vwapRef.current;
+    const last = closedRef.current[closedRef.current.length - 1];
+    if (closed && (!last || candle.time > last.time)) {
+      updateVWAPTracker(tracker, candle);
+      closedRef.current = [...closedRef.current.slice(-999), candle];
+      setVwap(vwapSnapshot(tracker));
+      setVwapEvents(tracker.events);
+    } else if (!closed) {
+      setVwap(previewVWAP(tracker, candle));
+    }
+  }, []);
 
   // ── REST initial load ──
   const loadRest = useCallback(async () => {
@@ -174,18 +250,26 @@ export function useMarketData(
         fetchFullTicker(sym),
       ]);
       setCandles(c);
+      seedVWAP(c);
       setTicker(t);
 
       // Orderbook in background (non-blocking)
-      fetchOrderBook(sym, 10)
-        .then(setOrderBook)
+      fetchOrderBook(sym, 100)
+        .then(b => { setDeepBook(b); setOrderBook(b); })
         .catch(() => {}); // silent fail ok
+      fetchOpenInterestHistory(sym)
+        .then(h => setOi(prev => prev.symbol !== sym ? prev : {
+          symbol: sym,
+          samples: [...h, ...prev.samples.filter(p => p.time > (h[h.length - 1]?.time ?? 0))],
+        }))
+        .catch(() => {});
 
     } catch (e) {
       // Binance failed — try Bybit
       try {
         const c = await bybitFetchCandles(sym, tf, 300);
         setCandles(c);
+        seedVWAP(c);
         setError('Using Bybit fallback');
       } catch {
         setError('Both Binance and Bybit failed. Check CORS or network.');
@@ -193,25 +277,30 @@ export function useMarketData(
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [seedVWAP]);
 
   // ── WebSocket live candle feed ──
   const connectWS = useCallback(() => {
     if (!activeRef.current) return;
     const sym = symRef.current.toLowerCase();
     const tf  = tfRef.current;
+    const flowOn = withFlowRef.current;
 
-    // Combined stream: kline + ticker + depth
+    // Combined stream: kline + ticker + depth (+ aggTrade)
     const streams = [
       `${sym}@kline_${tf}`,
       `${sym}@ticker`,
-      `${sym}@depth5@100ms`,
+      `${sym}@depth20@100ms`,
+      ...(flowOn ? [`${sym}@aggTrade`] : []),
     ].join('/');
 
     const ws = new WebSocket(`${BINANCE_WS}/${streams}`);
     wsRef.current = ws;
 
-    ws.onopen = () => setConnected(true);
+    ws.onopen = () => {
+      setConnected(true);
+      if (withFlowRef.current !== flowOn) subscribeFlow(ws, sym, withFlowRef.current); // toggled while connecting
+    };
 
     ws.onmessage = (ev: MessageEvent) => {
       try {
@@ -230,6 +319,8 @@ export function useMarketData(
             close:  parseFloat(k.c),
             volume: parseFloat(k.v),
           };
+          applyKline(candle, !!k.x);
+          if (withFlowRef.current) setDeltas(flowSnapshot(flowRef.current)); // trades are batched into kline ticks
           setCandles(prev => {
             const last = prev[prev.length - 1];
             if (last && last.time === candle.time) {
@@ -245,6 +336,7 @@ export function useMarketData(
         if (stream.includes('@ticker')) {
           setTicker(prev => ({
             ...prev,
+            symbol:   sym.toUpperCase(),
             price:    parseFloat(payload.c),
             change24h:parseFloat(payload.P),
             vol24h:   parseFloat(payload.q) / 1e6,
@@ -253,8 +345,18 @@ export function useMarketData(
           }));
         }
 
-        if (stream.includes('@depth5')) {
+        if (stream.includes('@aggTrade') && withFlowRef.current) {
+          addAggTrade(flowRef.current, {
+            time:         payload.T as number,
+            price:        parseFloat(payload.p),
+            qty:          parseFloat(payload.q),
+            buyerIsMaker: !!payload.m,
+          });
+        }
+
+        if (stream.includes('@depth20')) {
           setOrderBook({
+            symbol: sym.toUpperCase(),
             bids: ((payload.b ?? []) as [string, string][]).map(([p, q]) => ({ price: parseFloat(p), qty: parseFloat(q) })),
             asks: ((payload.a ?? []) as [string, string][]).map(([p, q]) => ({ price: parseFloat(p), qty: parseFloat(q) })),
             timestamp: Date.now(),
@@ -270,24 +372,59 @@ export function useMarketData(
         reconnRef.current = setTimeout(connectWS, 3000);
       }
     };
+  }, [applyKline]);
+
+  // ── Periodic REST refresh of the deep book (every 15s) ──
+  useEffect(() => {
+    const t = setInterval(() => {
+      if (activeRef.current) fetchOrderBook(symRef.current, 100).then(setDeepBook).catch(() => {});
+    }, 15000);
+    return () => clearInterval(t);
   }, []);
 
   // ── Periodic REST refresh for OI + funding (every 60s) ──
   useEffect(() => {
     const t = setInterval(() => {
       if (activeRef.current) {
-        fetchFullTicker(symRef.current).then(t => setTicker(prev => ({ ...prev, ...t }))).catch(() => {});
+        const sym = symRef.current;
+        fetchFullTicker(sym).then(t => {
+          if (sym !== symRef.current) return; // pair switched while in flight
+          setTicker(prev => ({ ...prev, ...t }));
+          const { openInterest, markPrice, fundingRate } = t;
+          if (openInterest && markPrice) {
+            const sample = { time: Date.now(), openInterest, price: markPrice, fundingRate };
+            setOi(prev => prev.symbol !== sym ? prev : { symbol: sym, samples: [...prev.samples.slice(-999), sample] });
+          }
+        }).catch(() => {});
       }
     }, 60000);
     return () => clearInterval(t);
   }, []);
 
+  // ── aggTrade toggled: (un)subscribe on the open socket, fresh delta buckets ──
+  useEffect(() => {
+    if (withFlowRef.current === withFlow) return;
+    withFlowRef.current = withFlow;
+    flowRef.current = createFlowTracker(tfRef.current);
+    setDeltas([]);
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) subscribeFlow(ws, symRef.current.toLowerCase(), withFlow);
+  }, [withFlow]);
+
+  // ── SWING VWAP anchor changed: replay closed candles from the new anchor ──
+  useEffect(() => {
+    anchorRef.current = vwapAnchorTime;
+    setSwingAnchor(vwapRef.current, closedRef.current, vwapAnchorTime);
+    setVwap(vwapSnapshot(vwapRef.current));
+  }, [vwapAnchorTime]);
+
   // ── Mount / unmount ──
   useEffect(() => {
     activeRef.current = true;
     symRef.current   = symbol;
     tfRef.current    = timeframe;
-    setCandles([]); setTicker(null);
+    flowRef.current  = createFlowTracker(timeframe);
+    setCandles([]); setTicker(null); setOrderBook(null); setDeepBook(null); setOi({ symbol, samples: [] }); setVwap([]); setVwapEvents([]); setDeltas([]);
 
     loadRest().then(connectWS);
 
@@ -299,7 +436,9 @@ export function useMarketData(
   }, [symbol, timeframe, loadRest, connectWS]);
 
   return {
-    candles, ticker, orderBook, connected, loading, error,
+    candles, ticker, orderBook, deepBook,
+    oiHistory: oi.symbol === symbol ? oi.samples : NO_OI_HISTORY, // the previous pair's until the reset lands
+    vwap, vwapEvents, deltas, connected, loading, error,
     refresh: loadRest,
   };
 }
@@ -338,3 +477,41 @@ export function useMultiTimeframeCandles(
 
   return data;
 }
+
+// ─── CORRELATED SYMBOLS HOOK ──────────────────────────────────────────────────
+
+/** Same timeframe, several symbols — feeds SMT divergence */
+export function useCorrelatedCandles(
+  symbols: string[],
+  timeframe: Timeframe
+): Record<string, Candle[]> {
+  const [data, setData] = useState<Record<string, Candle[]>>({});
+  const symbolKey = symbols.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const list = symbolKey ? symbolKey.split(',') : [];
+
+    const load = async () => {
+      const results = await Promise.allSettled(
+        list.map(s => fetchCandles(s, timeframe, 200))
+      );
+
+      if (cancelled) return;
+
+      const next: Record<string, Candle[]> = {};
+      list.forEach((s, i) => {
+        if (results[i].status === 'fulfilled') {
+          next[s] = (results[i] as PromiseFulfilledResult<Candle[]>).value;
+        }
+      });
+      setData(next);
+    };
+
+    load();
+    const t = setInterval(load, 60 * 1000); // refresh every 1min
+    return () => { cancelled = true; clearInterval(t); };
+  }, [symbolKey, timeframe]);
+
+  return data;
+}
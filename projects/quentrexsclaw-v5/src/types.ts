@@ -17,11 +17,115 @@ export interface OrderBookLevel {
 }
 
 export interface OrderBook {
+  symbol: string;
   bids: OrderBookLevel[];
   asks: OrderBookLevel[];
   timestamp: number;
 }
 
+/**
+ * Resting order-book cluster tracked over time:
+ * RESTING  still on the book
+ * FILLED   price traded through it
+ * PULLED   removed before price got there
+ * SPOOFED  pulled quickly while price was approaching
+ */
+export type WallStatus = 'RESTING' | 'FILLED' | 'PULLED' | 'SPOOFED';
+
+export interface BookWall {
+  id: string;
+  side: 'BID' | 'ASK';
+  price: number;             // qty-weighted price of the cluster
+  qty: number;
+  peakQty: number;
+  multiple: number;          // qty vs the median cluster of its side
+  firstSeen: number;
+  lastSeen: number;
+  status: WallStatus;
+  endTime?: number;
+}
+
+export interface BookImbalance {
+  bidQty: number;
+  askQty: number;
+  ratio: number;             // -1 (all asks) .. +1 (all bids)
+  pctRange: number;          // depth measured within ±pctRange% of price
+}
+
+/** One aggregated trade from the @aggTrade stream */
+export interface AggTrade {
+  time: number;
+  price: number;
+  qty: number;
+  buyerIsMaker: boolean;     // true = the seller was the aggressor
+}
+
+/** Aggressor volume of one candle, keyed by the candle's open time */
+export interface CandleDelta {
+  time: number;
+  buyVolume: number;         // market buys
+  sellVolume: number;        // market sells
+  delta: number;             // buy - sell
+  cvd: number;               // cumulative delta since the feed started, at this candle's close
+}
+
+/**
+ * Order flow at a swept level:
+ * REJECTED  aggressors were absorbed or CVD diverged — a real sweep-and-reject
+ * ACCEPTED  price is still being sold (bought) through the level — breakout
+ * UNCLEAR   no flow, or flow that says neither
+ */
+export interface SweepFlow {
+  levelId: string;
+  levelType: SwingType;
+  verdict: 'REJECTED' | 'ACCEPTED' | 'UNCLEAR';
+  absorption: boolean;
+  divergence: boolean;
+  delta: number;             // summed delta from the sweep candle on
+  reason: string;
+}
+
+/** Open interest at a point in time, with the price it was recorded at */
+export interface OISample {
+  time: number;
+  openInterest: number;      // contracts
+  price: number;
+  fundingRate?: number;      // % per 8h — live ticker samples only
+}
+
+/**
+ * Derivatives positioning read from funding + OI:
+ * CROWDED_LONGS / CROWDED_SHORTS  one side paying up and still adding with the trend
+ * SHORT_SQUEEZE_FUEL              shorts paying / adding while price holds or rises
+ * LONG_SQUEEZE_FUEL               longs paying / adding while price stalls or falls
+ * OI_FLUSH                        OI dumped right after a liquidity sweep — one side washed out
+ */
+export type PositioningRegime =
+  | 'CROWDED_LONGS' | 'CROWDED_SHORTS' | 'SHORT_SQUEEZE_FUEL' | 'LONG_SQUEEZE_FUEL' | 'OI_FLUSH' | 'NEUTRAL';
+
+export interface PositioningState {
+  regime: PositioningRegime;
+  favors: TradeDirection | null;
+  fundingRate: number | null; // latest, % per 8h
+  oiChangePct: number;        // over the window
+  priceChangePct: number;
+  reason: string;
+}
+
+/** Estimated forced-order size in one price bucket */
+export interface LiquidationBucket {
+  price: number;             // bucket midpoint
+  longQty: number;           // longs liquidated if price falls here
+  shortQty: number;          // shorts liquidated if price rises here
+}
+
+export interface LiquidationHeatmap {
+  bucketSize: number;
+  buckets: LiquidationBucket[]; // sorted by price
+  maxQty: number;            // heaviest bucket (long + short)
+  time: number;              // last OI sample
+}
+
 export interface FundingRate {
   symbol: string;
   fundingRate: number;
@@ -47,11 +151,33 @@ export type SwingType = 'HIGH' | 'LOW';
 export type StructureType = 'BOS_BULL' | 'BOS_BEAR' | 'CHoCH_BULL' | 'CHoCH_BEAR' | 'MSS_BULL' | 'MSS_BEAR';
 export type SweepStatus = 'ACTIVE' | 'SWEPT';
 
+/**
+ * How a level was swept:
+ * WICK_RAID  the sweep candle wicked beyond and closed back inside
+ * RECLAIMED  closed beyond, then closed back inside within SWEEP_RECLAIM_BARS
+ * RUN        closed beyond and stayed there — the level was run, not raided
+ */
+export type SweepKind = 'WICK_RAID' | 'RECLAIMED' | 'RUN';
+
+export interface SweepQuality {
+  kind: SweepKind;           // RUN while a close-through can still be reclaimed (settled = false)
+  settled: boolean;
+  extreme: number;           // furthest price beyond the level so far
+  depthAtr: number;          // (extreme - level) in ATR at the sweep candle
+  barsBeyond: number;        // closes beyond the level (0 = wick raid)
+  atr: number;               // ATR at the sweep candle
+  reclaimTime?: number;      // close back inside (RECLAIMED)
+  returnTime?: number;       // first close back inside after a settled RUN — depth and bars stop there
+}
+
+export type SwingStatus = 'PROVISIONAL' | 'CONFIRMED' | 'CANCELLED';
+
 export interface SwingPoint {
   index: number;
   time: number;
   price: number;
   type: SwingType;
+  status: SwingStatus;       // PROVISIONAL until rightLen bars pass without trading through it
 }
 
 export interface StructurePoint {
@@ -60,6 +186,8 @@ export interface StructurePoint {
   type: StructureType;
   confirmed: boolean;
   candle: Candle;
+  brokenSwing: SwingPoint;        // swing whose level was taken out
+  displacementCandle?: Candle;    // MSS only — candle that closed beyond the level
 }
 
 export interface LiquidityLevel {
@@ -70,35 +198,122 @@ export interface LiquidityLevel {
   status: SweepStatus;
   sweepTime?: number;
   sweepCandle?: Candle;
-  strength: number;          // 0-100 based on how many times tested
+  sweep?: SweepQuality;      // set with sweepTime
+  strength: number;          // 0-100: tests before the sweep + pooling, aged by bars and travel (frozen once swept)
   timeframe: Timeframe;
+  members: SwingPoint[];     // swings pooled into this level — 2+ = EQH / EQL
+  source?: SessionLevelKind; // set for session / calendar levels (no member swings)
+  origin?: LiquidityOrigin;  // set for levels not built from price (no member swings)
 }
 
+/** Non-price liquidity: resting order-book walls, estimated liquidation clusters */
+export type LiquidityOrigin = 'BOOK' | 'LIQUIDATION';
+
+export type SessionLevelKind =
+  | 'ASIA_HIGH' | 'ASIA_LOW' | 'LONDON_HIGH' | 'LONDON_LOW' | 'NY_HIGH' | 'NY_LOW'
+  | 'PDH' | 'PDL' | 'PWH' | 'PWL' | 'MIDNIGHT_OPEN';
+
+/**
+ * Which part of the opposing candle(s) forms the block:
+ * FULL = high→low, BODY = open→close, WICK = open→far wick (classic ICT: open→low for bullish)
+ */
+export type OBDefinition = 'FULL' | 'BODY' | 'WICK';
+
+/**
+ * Order block mitigation lifecycle:
+ * UNTOUCHED       price has not traded back into the block
+ * TOUCHED         a wick entered the block
+ * MEAN_THRESHOLD  price reached the 50% level without closing beyond it
+ * VIOLATED        a candle closed beyond the far edge (terminal)
+ */
+export type OBMitigationState = 'UNTOUCHED' | 'TOUCHED' | 'MEAN_THRESHOLD' | 'VIOLATED';
+
 export interface OrderBlock {
   id: string;
   type: 'BULLISH' | 'BEARISH';
   top: number;
   bottom: number;
-  time: number;
-  mitigated: boolean;
+  meanThreshold: number;     // 50% of the block
+  time: number;              // last opposing candle before the move
+  startTime: number;         // first candle of a multi-candle block
+  candleCount: number;
+  definition: OBDefinition;
+  mitigated: boolean;        // wick reached the far edge
   mitigationTime?: number;
-  volume: number;
+  mitigationState: OBMitigationState;
+  mitigationStateTime?: number; // time of the last state change
+  volume: number;            // total volume inside the block
   strength: number;          // 0-100
   timeframe: Timeframe;
 }
 
+export type BreakerState = 'CANDIDATE' | 'CONFIRMED' | 'RETESTED' | 'INVALIDATED';
+
+export interface BreakerTransition {
+  state: BreakerState;
+  time: number;
+}
+
+/**
+ * Failed OB flipped to the opposite bias.
+ * BREAKER    = the OB's move made a new extreme before failing (swept liquidity)
+ * MITIGATION = the OB's move never made a new extreme (lower high / higher low)
+ */
+export interface BreakerBlock extends OrderBlock {
+  kind: 'BREAKER' | 'MITIGATION';
+  sourceId: string;          // id of the failed OrderBlock
+  state: BreakerState;
+  history: BreakerTransition[];
+  breakIndex: number;        // candle index of the close through the OB
+  breakTime: number;
+  structure?: StructurePoint; // new structure that confirmed the flip
+}
+
+/**
+ * FRESH          untouched since it formed
+ * TOUCHED        traded into without holding the 50% (CE) — or CE already lost on a close
+ * CE_RESPECTED   wicked to consequent encroachment (50%) with every close holding it
+ * CLOSED_THROUGH a candle closed beyond the far edge (terminal)
+ * EXPIRED        outlived the max age without closing through (terminal)
+ */
+export type FVGState = 'FRESH' | 'TOUCHED' | 'CE_RESPECTED' | 'CLOSED_THROUGH' | 'EXPIRED';
+
 export interface FairValueGap {
   id: string;
   type: 'BULLISH' | 'BEARISH';
   top: number;
   bottom: number;
   time: number;
-  midpoint: number;
-  filled: boolean;
-  fillPercent: number;       // 0-100
+  midpoint: number;          // consequent encroachment (CE)
+  filled: boolean;           // traded to the far edge (wick)
+  fillPercent: number;       // 0-100, deepest penetration so far
+  filledTime?: number;
+  state: FVGState;
+  stateTime?: number;        // time of the last state change
+  ceBroken: boolean;         // a candle has closed beyond CE
+  ageBars: number;           // bars since the gap was confirmed
   timeframe: Timeframe;
 }
 
+/** FVG that price closed through — now trades with the opposite bias */
+export interface InverseFVG extends FairValueGap {
+  originalType: 'BULLISH' | 'BEARISH';
+  sourceId: string;          // id of the inverted FairValueGap
+  sourceTime: number;
+}
+
+/** Consecutive bodies don't overlap but the wicks do — the gap between the bodies */
+export interface VolumeImbalance extends FairValueGap {
+  kind: 'VOLUME_IMBALANCE';
+}
+
+/** Run of large single-direction candles with thin overlap — price barely traded there */
+export interface LiquidityVoid extends FairValueGap {
+  kind: 'LIQUIDITY_VOID';
+  startTime: number;         // first candle of the run (time = last candle)
+  candleCount: number;
+}
+
 export interface PDArray {
   premium: number;           // 61.8% fib
   equilibrium: number;       // 50%
@@ -107,6 +322,185 @@ export interface PDArray {
   low: number;
   type: 'BULLISH' | 'BEARISH';
   strength: number;
+  provisional: boolean;      // range edge is a provisional swing
+}
+
+/** Overlap of an active bullish and an active bearish FVG — reacts both ways */
+export interface BalancedPriceRange {
+  top: number;
+  bottom: number;
+  time: number;              // later of the two gaps
+  strength: number;          // 0-100 by overlap size
+  bullId: string;
+  bearId: string;
+  timeframes: Timeframe[];   // of the two gaps, deduplicated
+}
+
+export type ConfluenceKind =
+  | 'OB' | 'BREAKER' | 'FVG' | 'IFVG' | 'BPR'
+  | 'VOLUME_IMBALANCE' | 'LIQUIDITY_VOID' | 'LIQUIDITY' | 'PD_LEVEL';
+
+/** One PD array / level feeding a confluence zone */
+export interface ConfluenceContributor {
+  kind: ConfluenceKind;
+  id: string;
+  timeframe: Timeframe;
+  bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  top: number;
+  bottom: number;            // == top for single-price levels
+  weight: number;            // what it adds to the zone score
+  label: string;
+}
+
+/** Overlapping contributors from any timeframe merged into one price band */
+export interface ConfluenceZone {
+  id: string;
+  top: number;
+  bottom: number;
+  score: number;             // 0-100
+  bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  timeframes: Timeframe[];   // highest first
+  contributors: ConfluenceContributor[];
+  distancePct: number;       // from price to the nearest edge, 0 when inside
+}
+
+/** Every zone, ranked by score */
+export interface ConfluenceMap {
+  price: number;
+  zones: ConfluenceZone[];
+}
+
+/**
+ * Dealing range anchored to a structural leg: origin of the BOS/MSS leg → its extreme.
+ * EXTERNAL = the leg that started the current trend, stretched by every
+ * continuation; INTERNAL = the latest continuation leg, nested inside it.
+ */
+export interface DealingRange {
+  id: string;
+  kind: 'EXTERNAL' | 'INTERNAL';
+  direction: 'BULLISH' | 'BEARISH';
+  high: number;
+  low: number;
+  highTime: number;
+  lowTime: number;
+  premium: number;           // 61.8%
+  equilibrium: number;       // 50%
+  discount: number;          // 38.2%
+  structure: StructurePoint; // the break that defined the leg
+  parentId?: string;         // INTERNAL → its EXTERNAL range
+  startTime: number;         // time of the defining break
+  endTime?: number;          // superseded here; open range when absent
+}
+
+/** Volatility in price units — stops, targets and displacement scale with it */
+export interface VolatilityProfile {
+  atr: number;               // Wilder ATR(14)
+  atrPct: number;            // ATR as % of the last close
+  adr: number;               // average daily range (completed days)
+  rangePercentile: number;   // 0-100: last bar's range vs recent bars
+}
+
+/** Volume-at-price over a candle range (a day, a session, the visible range) */
+export interface VolumeProfile {
+  startTime: number;
+  endTime: number;           // open time of the last candle in the range
+  low: number;
+  binSize: number;
+  bins: number[];            // volume per price bin, low → high
+  totalVolume: number;
+  poc: number;               // point of control — midpoint of the heaviest bin
+  vah: number;               // value area high
+  val: number;               // value area low
+  hvn: number[];             // high-volume node prices
+  lvn: number[];             // low-volume node prices
+}
+
+/**
+ * Price traded outside the value area and closed back inside.
+ * VAL reclaim = bullish (sellers below value trapped), VAH reclaim = bearish.
+ */
+export interface ValueAreaReclaim {
+  type: 'BULLISH' | 'BEARISH';
+  level: 'VAL' | 'VAH';
+  price: number;             // the VAL / VAH that was reclaimed
+  extreme: number;           // furthest price outside value
+  sweepTime: number;
+  reclaimTime: number;
+}
+
+/** Where an anchored VWAP starts: day / week open, a killzone open, or a chosen swing */
+export type VWAPAnchorKind = 'DAY' | 'WEEK' | 'AKZ' | 'LKZ' | 'NYKZ' | 'SWING';
+
+export interface AnchoredVWAP {
+  id: string;
+  kind: VWAPAnchorKind;
+  anchorTime: number;
+  vwap: number;
+  stdev: number;             // volume-weighted σ of typical price around the VWAP
+  upper: [number, number, number]; // +1σ / +2σ / +3σ
+  lower: [number, number, number]; // -1σ / -2σ / -3σ
+  volume: number;
+  bars: number;
+}
+
+/** Close crossed back above (RECLAIM) or below (LOSS) an anchored VWAP */
+export interface VWAPEvent {
+  type: 'RECLAIM' | 'LOSS';
+  kind: VWAPAnchorKind;
+  anchorId: string;
+  vwap: number;
+  close: number;
+  time: number;
+}
+
+export type BiasDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+export type PDZone = 'PREMIUM' | 'EQUILIBRIUM' | 'DISCOUNT';
+
+export interface HTFBias {
+  timeframe: Timeframe;
+  bias: BiasDirection;
+  score: number;             // -100 (bearish) .. +100 (bullish)
+  reason: string;
+  lastStructure: StructurePoint | null;
+  pdZone: PDZone | null;
+}
+
+/**
+ * Optimal Trade Entry on the impulse leg behind the latest BOS/MSS.
+ * Retracements measured from the leg extreme back toward its origin;
+ * extensions projected beyond the extreme (-0.27 / -0.62).
+ */
+export interface OTEZone {
+  type: 'BULLISH' | 'BEARISH';   // BULLISH = buy the retracement
+  legHigh: number;
+  legLow: number;
+  legStartTime: number;          // origin of the leg
+  legEndTime: number;            // extreme so far
+  ote62: number;
+  ote705: number;                // sweet spot
+  ote79: number;
+  target27: number;
+  target62: number;
+  structure: StructurePoint;
+}
+
+/** One symbol's pair of consecutive same-side swings in an SMT comparison */
+export interface SMTLeg {
+  symbol: string;
+  prev: SwingPoint;
+  curr: SwingPoint;
+}
+
+/**
+ * Correlated symbols disagree at a swing: one makes a lower low (higher high),
+ * the other holds a higher low (lower high). Lows → BULLISH, highs → BEARISH.
+ */
+export interface SMTDivergence {
+  type: 'BULLISH' | 'BEARISH';
+  swingType: SwingType;
+  time: number;              // later of the two current swings
+  broke: SMTLeg;             // made the new extreme
+  held: SMTLeg;              // failed to confirm it — the "strong" symbol
 }
 
 // ─── KILLZONE ─────────────────────────────────────────────────────────────────
@@ -125,9 +519,37 @@ export interface Killzone {
   minutesRemaining?: number;
 }
 
+// ─── POWER OF THREE ───────────────────────────────────────────────────────────
+
+export type PO3Phase = 'ACCUMULATION' | 'MANIPULATION' | 'DISTRIBUTION';
+
+/** Session open running the wrong way through a reference range, then reversing */
+export interface JudasSwing {
+  session: 'LKZ' | 'NYKZ';
+  falseMove: 'UP' | 'DOWN';  // UP = raided the range high (bearish day)
+  refHigh: number;           // Asia range for London, London range for NY
+  refLow: number;
+  sessionOpen: number;
+  extreme: number;           // furthest price of the false move
+  sweepTime: number;
+  confirmed: boolean;        // closed back through the session open
+  reversalTime?: number;
+}
+
+export interface DailyNarrative {
+  dayStart: number;          // UTC ms of local (MMT) midnight
+  phase: PO3Phase;
+  midnightOpen: number | null; // null unless a candle opens exactly at local midnight (history gap, 1h at +6:30)
+  asiaHigh: number | null;   // accumulation range (null until Asia has traded)
+  asiaLow: number | null;
+  judas: JudasSwing | null;
+  bias: BiasDirection;       // expected distribution direction
+  reason: string;
+}
+
 // ─── AI AGENTS ────────────────────────────────────────────────────────────────
 
-export type AgentName = 'STRUCTURE' | 'LIQUIDITY' | 'ARRAY' | 'RISK' | 'EXECUTION';
+export type AgentName = 'STRUCTURE' | 'LIQUIDITY' | 'ARRAY' | 'RISK' | 'EXECUTION' | 'POSITIONING';
 
 export interface AgentSignal {
   agent: AgentName;
@@ -0,0 +1,39 @@
+import type { Candle, LiquidityLevel } from '../types';
+import { runLiquidityAgent } from './agents';
+import { buildConfluenceMap } from './confluence';
+import { createLiquidityLevel, updateSweep } from './liquidity';
+
+const H4 = 4 * 3600000;
+const noZones = buildConfluenceMap([], 100);
+
+/** 4h swing low at 100, then candles [low, close] applied to its sweep state */
+function sweptLow(rows: number[][]): LiquidityLevel {
+  const level = createLiquidityLevel({ index: 0, time: 0, price: 100, type: 'LOW', status: 'CONFIRMED' }, '4h');
+  rows.forEach(([low, close], i) => {
+    const c: Candle = { time: (i + 1) * H4, open: close, high: Math.max(close, low) + 0.5, low, close, volume: 100 };
+    updateSweep(level, c, 1);
+  });
+  return level;
+}
+
+describe('liquidity agent', () => {
+  it('credits a wick raid of the low for longs', () => {
+    const signal = runLiquidityAgent([sweptLow([[99.5, 100.4]])], noZones, 'LONG');
+    expect(signal.score).toBe(37); // strength 30 × 0.4 + HTF sweep 25
+    expect(signal.details[0]).toBe('1 aligned sweeps (+12)');
+  });
+
+  it('credits a close-through once it is reclaimed', () => {
+    const level = sweptLow([[99.5, 99.8], [99.6, 100.3]]);
+    expect(level.sweep!.kind).toBe('RECLAIMED');
+    expect(runLiquidityAgent([level], noZones, 'LONG').score).toBe(37);
+  });
+
+  it('gives no sweep credit for a low price ran through', () => {
+    const level = sweptLow([[99.5, 99.8], [99, 99.2], [98.5, 98.7], [98, 98.2]]);
+    expect(level.sweep).toMatchObject({ kind: 'RUN', settled: true });
+    const signal = runLiquidityAgent([level], noZones, 'LONG');
+    expect(signal.score).toBe(0);
+    expect(signal.details).toEqual(['No aligned sweeps detected', '1 aligned level run through — not raids (+0)']);
+  });
+});
@@ -1,26 +1,30 @@
 /**
  * utils/agents.ts
- * 5-Agent Rule-Based Council — zero API cost, zero backend needed.
+ * 6-Agent Rule-Based Council — zero API cost, zero backend needed.
  * Each agent scores 0-100 based on pure ICT logic.
  * Consensus = weighted sum → A+(90+), A(80-89), B/C blocked.
  */
 
 import type {
   Candle, AgentSignal, AgentCouncil, SetupGrade, TradeDirection,
-  LiquidityLevel, OrderBlock, FairValueGap, PDArray, Killzone,
-  StructurePoint
+  LiquidityLevel, PDArray, Killzone, StructurePoint, HTFBias, OTEZone, ConfluenceMap,
+  DailyNarrative, SMTDivergence, DealingRange, ValueAreaReclaim, VWAPEvent, PositioningState, SweepFlow
 } from '../types';
-import { pdScore, countNearbyOBs, nearestFVG } from './ict';
-import { scoreLiquidityMagnet } from './liquidity';
+import { pdScore, inOTE } from './ict';
+import { zonesNear, zonesAgainst, zoneKinds, liquidityTargets } from './confluence';
+import { isPool, isRaid, poolLabel } from './liquidity';
+import { sessionLevelLabel } from './sessions';
+import { biasAlignment } from './bias';
 
 // ─── AGENT WEIGHTS ────────────────────────────────────────────────────────────
 
 const WEIGHTS = {
-  STRUCTURE:  0.25,
-  LIQUIDITY:  0.25,
-  ARRAY:      0.20,
-  RISK:       0.15,
-  EXECUTION:  0.15,
+  STRUCTURE:   0.23,
+  LIQUIDITY:   0.22,
+  ARRAY:       0.18,
+  RISK:        0.13,
+  EXECUTION:   0.14,
+  POSITIONING: 0.10,
 };
 
 // ─── AGENT 1: STRUCTURE ANALYST ───────────────────────────────────────────────
@@ -31,11 +35,16 @@ const WEIGHTS = {
  * - MSS confirmation
  * - HTF vs LTF structure agreement
  * - Number of confirmed structure points
+ * - Daily Power of Three narrative (confirmed Judas swing sets the day's direction)
+ * - SMT divergence with correlated pairs in the last 20 bars
  */
 export function runStructureAgent(
   candles: Candle[],
   structurePoints: StructurePoint[],
-  direction: 'LONG' | 'SHORT'
+  direction: 'LONG' | 'SHORT',
+  htfBias: HTFBias | null = null,
+  narrative: DailyNarrative | null = null,
+  smt: SMTDivergence[] = []
 ): AgentSignal {
   const details: string[] = [];
   let score = 0;
@@ -61,9 +70,15 @@ export function runStructureAgent(
     else { score -= 10; details.push('Latest structure OPPOSED (-10)'); }
   }
 
+  // MSS (CHoCH + displacement + FVG) outranks a plain CHoCH
+  const lastMSS = recent.filter(sp => sp.type.startsWith('MSS')).pop();
+  const mssAligned = !!lastMSS && lastMSS.type === (direction === 'LONG' ? 'MSS_BULL' : 'MSS_BEAR');
+  if (lastMSS && mssAligned) { score += 25; details.push(`MSS @ ${lastMSS.price.toFixed(3)} — displacement + FVG (+25)`); }
+  else if (lastMSS) { score -= 15; details.push('Latest MSS OPPOSED (-15)'); }
+
   // CHoCH present? (higher quality)
   const hasChoCH = recent.some(sp => sp.type.includes('CHoCH'));
-  if (hasChoCH) { score += 15; details.push('CHoCH confirmed (+15)'); }
+  if (hasChoCH && !mssAligned) { score += 15; details.push('CHoCH confirmed (+15)'); }
 
   // Confirmed (closed beyond level)?
   const confirmed = recent.filter(sp => sp.confirmed && (
@@ -77,6 +92,28 @@ export function runStructureAgent(
   if (direction === 'LONG' && bullish5 >= 3) { score += 10; details.push('Bullish momentum (+10)'); }
   if (direction === 'SHORT' && bullish5 <= 2) { score += 10; details.push('Bearish momentum (+10)'); }
 
+  // HTF bias: trade with the parent timeframe, not against it
+  const htf = biasAlignment(htfBias, direction);
+  if (htfBias && htf === 'ALIGNED') { score += 15; details.push(`HTF ${htfBias.timeframe} ${htfBias.bias} aligned (+15)`); }
+  if (htfBias && htf === 'OPPOSED') { score -= 20; details.push(`HTF ${htfBias.timeframe} ${htfBias.bias} OPPOSED (-20)`); }
+
+  // PO3: after a Judas swing the day distributes the other way
+  if (narrative && narrative.bias !== 'NEUTRAL') {
+    const dayAligned = narrative.bias === (direction === 'LONG' ? 'BULLISH' : 'BEARISH');
+    if (dayAligned) { score += 10; details.push(`PO3 ${narrative.phase.toLowerCase()} ${narrative.bias} aligned (+10)`); }
+    else { score -= 10; details.push(`PO3 ${narrative.phase.toLowerCase()} ${narrative.bias} OPPOSED (-10)`); }
+  }
+
+  // SMT: a correlated pair refused to confirm the latest sweep
+  const since = candles[Math.max(0, candles.length - 20)]?.time ?? 0;
+  const lastSMT = smt.filter(d => d.time >= since).pop();
+  if (lastSMT) {
+    const smtAligned = lastSMT.type === (direction === 'LONG' ? 'BULLISH' : 'BEARISH');
+    const label = `${lastSMT.type} SMT — ${lastSMT.held.symbol} held vs ${lastSMT.broke.symbol}`;
+    if (smtAligned) { score += 15; details.push(`Strong ${label} (+15)`); }
+    else { score -= 10; details.push(`${label} OPPOSED (-10)`); }
+  }
+
   score = Math.max(0, Math.min(100, score));
 
   return {
@@ -94,27 +131,38 @@ export function runStructureAgent(
 
 /**
  * Scores based on:
- * - Recent sweep quality (HTF sweep > LTF sweep)
+ * - Recent sweep quality (HTF sweep > LTF sweep, EQH/EQL pool > single swing) — raids
+ *   only (wick raids, reclaimed close-throughs); a RUN earns nothing
+ * - Session / calendar level raids (Asia, London, NY, PDH/PDL, PWH/PWL)
+ * - Sweep → reclaim of VAL / VAH of the reference volume profile
+ * - Anchored VWAP reclaim / loss (day, week, killzone, swing anchors)
+ * - Order flow at the last sweep: absorbed / CVD divergence vs still being pushed through
  * - Direction of sweep relative to setup (sweep LOW = long setup)
- * - Liquidity magnets above/below
+ * - Liquidity magnet in the trade's path, from the confluence map (swings, pools,
+ *   sessions, resting book walls, liquidation clusters)
  * - Sweep + displacement confirmation
  */
 export function runLiquidityAgent(
   levels: LiquidityLevel[],
-  currentPrice: number,
-  direction: 'LONG' | 'SHORT'
+  confluence: ConfluenceMap,
+  direction: 'LONG' | 'SHORT',
+  vaReclaim: ValueAreaReclaim | null = null,
+  vwapEvents: VWAPEvent[] = [],
+  sweepFlow: SweepFlow | null = null
 ): AgentSignal {
   const details: string[] = [];
   let score = 0;
 
-  // Recent sweeps in the right direction
+  // Recent sweeps in the right direction — raids only: a level price ran through fuels no reversal
   const recentSweeps = levels
     .filter(l => l.status === 'SWEPT')
     .slice(-10);
 
-  const alignedSweeps = recentSweeps.filter(l =>
+  const alignedTaken = recentSweeps.filter(l =>
     direction === 'LONG' ? l.type === 'LOW' : l.type === 'HIGH'
   );
+  const alignedSweeps = alignedTaken.filter(l => isRaid(l));
+  const runs = alignedTaken.length - alignedSweeps.length;
 
   if (alignedSweeps.length > 0) {
     const qualityScore = Math.min(40, alignedSweeps.reduce((s, l) => s + l.strength, 0) / alignedSweeps.length * 0.4);
@@ -123,6 +171,48 @@ export function runLiquidityAgent(
   } else {
     details.push('No aligned sweeps detected');
   }
+  if (runs > 0) details.push(`${runs} aligned level${runs > 1 ? 's' : ''} run through — not raids (+0)`);
+
+  // Pooled sweeps (EQH/EQL) took out stacked stops — worth more than one swing
+  const poolSweeps = alignedSweeps.filter(isPool);
+  if (poolSweeps.length > 0) {
+    const pool = poolSweeps[poolSweeps.length - 1];
+    score += 15;
+    details.push(`${poolLabel(pool)} pool swept (${pool.members.length} swings) (+15)`);
+  }
+
+  // Session / calendar raids — London sweeps Asia, NY sweeps London, PDH/PDL runs
+  const sessionSweeps = alignedSweeps.filter(l => l.source);
+  const lastSession = sessionSweeps[sessionSweeps.length - 1];
+  if (lastSession?.source) {
+    score += 10;
+    details.push(`${sessionLevelLabel(lastSession.source)} swept (+10)`);
+  }
+
+  // Sweep → reclaim of the value area edge (VAL for longs, VAH for shorts)
+  if (vaReclaim) {
+    const aligned = vaReclaim.type === (direction === 'LONG' ? 'BULLISH' : 'BEARISH');
+    score += aligned ? 15 : -10;
+    details.push(`${vaReclaim.level} reclaimed @ ${vaReclaim.price.toFixed(3)} ${aligned ? '(+15)' : '— against trade (-10)'}`);
+  }
+
+  // Anchored VWAP reclaim (longs) / loss (shorts) — latest recent event decides
+  const vwapEvent = vwapEvents[vwapEvents.length - 1];
+  if (vwapEvent) {
+    const aligned = vwapEvent.type === (direction === 'LONG' ? 'RECLAIM' : 'LOSS');
+    score += aligned ? 10 : -10;
+    details.push(`${vwapEvent.kind} VWAP ${vwapEvent.type === 'RECLAIM' ? 'reclaimed' : 'lost'} @ ${vwapEvent.vwap.toFixed(3)} ${aligned ? '(+10)' : '— against trade (-10)'}`);
+  }
+
+  // Flow at the last sweep — real sweep-and-reject vs a breakout still being fed
+  if (sweepFlow && sweepFlow.verdict !== 'UNCLEAR') {
+    const aligned = sweepFlow.levelType === (direction === 'LONG' ? 'LOW' : 'HIGH');
+    const rejected = sweepFlow.verdict === 'REJECTED';
+    if (aligned && rejected) { score += 15; details.push(`${sweepFlow.reason} (+15)`); }
+    else if (aligned) { score -= 20; details.push(`${sweepFlow.reason} (-20)`); }
+    else if (!rejected) { score += 10; details.push(`${sweepFlow.reason} — with trade (+10)`); }
+    else { score -= 10; details.push(`${sweepFlow.reason} — against trade (-10)`); }
+  }
 
   // HTF sweeps carry more weight
   const htfSweeps = alignedSweeps.filter(l =>
@@ -130,17 +220,11 @@ export function runLiquidityAgent(
   );
   if (htfSweeps.length > 0) { score += 25; details.push(`HTF sweep on ${htfSweeps[0].timeframe} (+25)`); }
 
-  // Nearest active levels as magnets
-  const magnets = scoreLiquidityMagnet(levels, currentPrice);
-  const topMagnet = magnets[0];
-  if (topMagnet && topMagnet.magnetScore > 60) {
-    const isAligned = direction === 'LONG'
-      ? topMagnet.level.type === 'HIGH'   // target above = long
-      : topMagnet.level.type === 'LOW';   // target below = short
-    if (isAligned) {
-      score += 20;
-      details.push(`Strong liquidity magnet @ ${topMagnet.level.price.toFixed(3)} (+20)`);
-    }
+  // Strongest liquidity in the trade's path (highs above longs, lows below shorts)
+  const target = liquidityTargets(confluence, direction)[0];
+  if (target && target.magnetScore > 40) {
+    score += 20;
+    details.push(`Strong liquidity magnet: ${target.liquidity.label} @ ${target.liquidity.top.toFixed(3)} (${target.zone.score}/100) (+20)`);
   }
 
   // No sweep yet = reduced score (waiting for confirmation)
@@ -163,68 +247,77 @@ export function runLiquidityAgent(
 
 /**
  * Scores based on:
- * - Nearest unmitigated OB quality and proximity
- * - FVG freshness and size
- * - BPR presence
- * - PD array positioning (discount/premium)
+ * - The best confluence zone of our bias at price (OBs, breakers, FVG lifecycle,
+ *   IFVGs, BPRs, imbalances / voids, liquidity and PD levels from every timeframe)
+ * - Timeframes stacked in that zone
+ * - Stronger opposing confluence in the way
+ * - Dealing range positioning (external discount/premium, nested internal range agreeing)
+ * - HTF bias agreement (LTF arrays that fight the HTF are penalized)
  */
 export function runArrayAgent(
-  orderBlocks: OrderBlock[],
-  fvgs: FairValueGap[],
+  confluence: ConfluenceMap,
   pdArray: PDArray | null,
   currentPrice: number,
-  direction: 'LONG' | 'SHORT'
+  direction: 'LONG' | 'SHORT',
+  htfBias: HTFBias | null = null,
+  internalRange: DealingRange | null = null
 ): AgentSignal {
   const details: string[] = [];
   let score = 0;
 
-  // Nearby OB check
-  const nearbyOBs = countNearbyOBs(orderBlocks, currentPrice, 1.5);
-  const relevantOBs = direction === 'LONG' ? nearbyOBs.bullish : nearbyOBs.bearish;
-  if (relevantOBs > 0) {
-    score += Math.min(30, relevantOBs * 15);
-    details.push(`${relevantOBs} ${direction === 'LONG' ? 'Bullish' : 'Bearish'} OB nearby (+${Math.min(30, relevantOBs * 15)})`);
-  }
-
-  // FVG check
-  const fvg = nearestFVG(fvgs, currentPrice, 2.0);
-  if (fvg && !fvg.filled) {
-    const aligned = direction === 'LONG' ? fvg.type === 'BULLISH' : fvg.type === 'BEARISH';
-    if (aligned) {
-      score += 25;
-      details.push(`Unfilled ${fvg.type} FVG @ ${fvg.midpoint.toFixed(3)} (+25)`);
-    }
-    // Partially filled FVG (price approaching)
-    if (fvg.fillPercent > 30 && fvg.fillPercent < 60) {
+  // Best zone of our bias at / beyond price — its score already carries array quality
+  const zone = zonesNear(confluence, direction, currentPrice)[0];
+  if (zone) {
+    const pts = Math.min(45, Math.round(zone.score * 0.45));
+    score += pts;
+    details.push(`${zoneKinds(zone)} @ ${zone.bottom.toFixed(3)}-${zone.top.toFixed(3)} (${zone.contributors.length} arrays, ${zone.score}/100) (+${pts})`);
+    if (zone.timeframes.length > 1) {
       score += 10;
-      details.push(`FVG 50% filled — optimal entry zone (+10)`);
+      details.push(`${zone.timeframes.join(' + ')} arrays stacked (+10)`);
     }
+  } else {
+    details.push(`No ${direction === 'LONG' ? 'bullish' : 'bearish'} confluence near price`);
+  }
+
+  // Stronger opposing confluence between price and the target
+  const against = zonesAgainst(confluence, direction, currentPrice)[0];
+  if (against && against.score > (zone?.score ?? 0)) {
+    score -= 10;
+    details.push(`Opposing ${zoneKinds(against)} @ ${against.bottom.toFixed(3)}-${against.top.toFixed(3)} (${against.score}/100) (-10)`);
   }
 
-  // PD array positioning
+  // PD array positioning — a range still resting on a provisional swing counts for less
   if (pdArray) {
     const pds = pdScore(pdArray, currentPrice);
+    const full = pdArray.provisional ? 15 : 25;
+    const near = pdArray.provisional ? 5 : 10;
+    const tag = pdArray.provisional ? ', provisional range' : '';
     if (direction === 'LONG' && pds > 70) {
-      score += 25;
-      details.push(`Price in Discount zone (${pds.toFixed(0)}% deep) (+25)`);
+      score += full;
+      details.push(`Price in Discount zone (${pds.toFixed(0)}% deep${tag}) (+${full})`);
     } else if (direction === 'SHORT' && pds < 30) {
-      score += 25;
-      details.push(`Price in Premium zone (+25)`);
+      score += full;
+      details.push(`Price in Premium zone (${(100 - pds).toFixed(0)}% high${tag}) (+${full})`);
     } else if ((direction === 'LONG' && pds > 50) || (direction === 'SHORT' && pds < 50)) {
-      score += 10;
-      details.push(`Price approaching optimal PD zone (+10)`);
+      score += near;
+      details.push(`Price approaching optimal PD zone (+${near})`);
     }
   }
 
-  // OB quality bonus
-  const bestOB = orderBlocks
-    .filter(ob => !ob.mitigated && ob.type === (direction === 'LONG' ? 'BULLISH' : 'BEARISH'))
-    .sort((a, b) => b.strength - a.strength)[0];
-  if (bestOB && bestOB.strength > 70) {
-    score += 10;
-    details.push(`High-strength OB (${bestOB.strength}/100) (+10)`);
+  // Internal range nested in the dealing range: discount inside discount (premium inside premium)
+  if (internalRange) {
+    const ips = pdScore(internalRange, currentPrice);
+    if ((direction === 'LONG' && ips > 70) || (direction === 'SHORT' && ips < 30)) {
+      score += 10;
+      details.push(`Internal range ${direction === 'LONG' ? 'discount' : 'premium'} agrees (+10)`);
+    }
   }
 
+  // HTF bias: discount longs under a bullish HTF, premium shorts under a bearish HTF
+  const htf = biasAlignment(htfBias, direction);
+  if (htfBias && htf === 'ALIGNED') { score += 10; details.push(`HTF ${htfBias.timeframe} bias supports arrays (+10)`); }
+  if (htfBias && htf === 'OPPOSED') { score -= 15; details.push(`HTF ${htfBias.timeframe} bias fights arrays (-15)`); }
+
   score = Math.max(0, Math.min(100, score));
 
   return {
@@ -323,19 +416,22 @@ export function runRiskAgent(
 /**
  * Scores the quality of the specific entry mechanics:
  * - Is entry at FVG 50% or OB edge? (optimal)
- * - Is SL beyond sweep extreme?
+ * - Is entry inside the OTE (62-79%) of the last impulse leg?
+ * - Is SL beyond sweep extreme, at a sane distance in ATRs?
  * - Are TPs at next liquidity pool?
  * - Spread/slippage consideration
  */
 export function runExecutionAgent(
   candles: Candle[],
+  atr: number,
   entryPrice: number,
   stopLoss: number,
   tp1: number,
   tp2: number,
   direction: 'LONG' | 'SHORT',
   fvgMidpoint: number | null,
-  obEdge: number | null
+  obEdge: number | null,
+  ote: OTEZone | null = null
 ): AgentSignal {
   const details: string[] = [];
   let score = 0;
@@ -346,23 +442,36 @@ export function runExecutionAgent(
     if (distFromFVG < 0.1) { score += 30; details.push(`Entry AT FVG 50% (+30)`); }
     else if (distFromFVG < 0.3) { score += 20; details.push(`Entry near FVG 50% (+20)`); }
     else { score += 10; details.push(`Entry within FVG (+10)`); }
-  } else if (obEdge !== null) {
+  }
+  if (obEdge !== null) {
     const distFromOB = Math.abs(entryPrice - obEdge) / entryPrice * 100;
-    if (distFromOB < 0.2) { score += 25; details.push(`Entry at OB edge (+25)`); }
-    else { score += 10; details.push(`Entry near OB (+10)`); }
+    if (fvgMidpoint === null) {
+      if (distFromOB < 0.2) { score += 25; details.push(`Entry at OB edge (+25)`); }
+      else if (distFromOB < 0.5) { score += 10; details.push(`Entry near OB (+10)`); }
+    } else if (distFromOB < 0.3) {
+      score += 10; details.push(`FVG entry backed by OB edge (+10)`);
+    }
+  }
+
+  // OTE: retracement entry on the leg that made the latest BOS/MSS
+  if (ote && ote.type === (direction === 'LONG' ? 'BULLISH' : 'BEARISH') && inOTE(ote, entryPrice)) {
+    const sweetSpot = Math.abs(entryPrice - ote.ote705) / (ote.legHigh - ote.legLow) < 0.03;
+    const pts = sweetSpot ? 20 : 15;
+    score += pts;
+    details.push(`Entry in OTE${sweetSpot ? ' sweet spot (70.5%)' : ' (62-79%)'} (+${pts})`);
   }
 
-  // SL placement
-  const slPct = Math.abs(entryPrice - stopLoss) / entryPrice * 100;
-  if (slPct >= 0.5 && slPct <= 1.5) {
+  // SL placement — measured in ATRs so it means the same on every pair
+  const slAtr = atr > 0 ? Math.abs(entryPrice - stopLoss) / atr : 0;
+  if (slAtr >= 1 && slAtr <= 3) {
     score += 20;
-    details.push(`SL placement ideal (${slPct.toFixed(2)}%) (+20)`);
-  } else if (slPct < 0.3) {
+    details.push(`SL placement ideal (${slAtr.toFixed(1)} ATR) (+20)`);
+  } else if (slAtr < 0.5) {
     score -= 15;
-    details.push(`SL too tight (${slPct.toFixed(2)}%) — risk of stop hunt (-15)`);
-  } else if (slPct > 2.5) {
+    details.push(`SL too tight (${slAtr.toFixed(1)} ATR) — risk of stop hunt (-15)`);
+  } else if (slAtr > 5) {
     score -= 10;
-    details.push(`SL wide (${slPct.toFixed(2)}%) — reduces RR (-10)`);
+    details.push(`SL wide (${slAtr.toFixed(1)} ATR) — reduces RR (-10)`);
   }
 
   // RR quality
@@ -391,6 +500,55 @@ export function runExecutionAgent(
   };
 }
 
+// ─── AGENT 6: POSITIONING READER ─────────────────────────────────────────────
+
+/**
+ * Scores the trade against derivatives positioning (funding + OI regime):
+ * - Flushed side / squeeze fuel behind the trade (strong)
+ * - Fading a crowded side (moderate)
+ * - Paying extreme funding to hold the position
+ * No history, or a regime that favors neither side → neutral 50 at zero weight,
+ * so it doesn't drag the consensus (the backtest leaves it out the same way).
+ */
+export function runPositioningAgent(
+  state: PositioningState | null,
+  direction: 'LONG' | 'SHORT'
+): AgentSignal {
+  const details: string[] = [];
+  let score = 50;
+
+  if (state) {
+    details.push(state.reason);
+    const withTrade = state.favors === direction;
+    const strong = state.regime === 'OI_FLUSH' || state.regime === 'SHORT_SQUEEZE_FUEL' || state.regime === 'LONG_SQUEEZE_FUEL';
+    if (state.favors) {
+      const pts = strong ? 35 : 15;
+      score += withTrade ? pts : -pts;
+      details.push(`${state.regime.replace(/_/g, ' ')} ${withTrade ? 'behind' : 'against'} ${direction} (${withTrade ? '+' : '-'}${pts})`);
+    }
+
+    // Holding cost: longs pay positive funding, shorts pay negative
+    const paying = state.fundingRate !== null && (direction === 'LONG' ? state.fundingRate >= 0.05 : state.fundingRate <= -0.05);
+    if (paying) { score -= 10; details.push(`Paying extreme funding to hold ${direction} (-10)`); }
+  } else {
+    details.push('No funding / OI history yet');
+  }
+
+  score = Math.max(0, Math.min(100, score));
+
+  return {
+    agent: 'POSITIONING',
+    score,
+    label: 'Positioning Reader',
+    details,
+    bullish: direction === 'LONG' ? score >= 50 : score < 50,
+    weight: state?.favors ? WEIGHTS.POSITIONING : 0,
+    reasoning: state
+      ? `${state.regime.replace(/_/g, ' ')} — positioning ${score >= 60 ? 'SUPPORTS' : score >= 40 ? 'NEUTRAL on' : 'OPPOSES'} ${direction}`
+      : 'Positioning unknown',
+  };
+}
+
 // ─── COUNCIL CONSENSUS ────────────────────────────────────────────────────────
 
 export function runCouncil(agents: AgentSignal[]): AgentCouncil {
@@ -404,8 +562,8 @@ export function runCouncil(agents: AgentSignal[]): AgentCouncil {
     consensusScore >= 80 ? 'A'  :
     consensusScore >= 65 ? 'B'  : 'C';
 
-  // Direction by majority
-  const bullishVotes = agents.filter(a => a.bullish).reduce((s, a) => s + a.weight, 0);
+  // Direction by weighted majority (agents may be left out, e.g. no positioning data in a backtest)
+  const bullishVotes = agents.filter(a => a.bullish).reduce((s, a) => s + a.weight, 0) / totalWeight;
   const direction: TradeDirection | null =
     bullishVotes > 0.6 ? 'LONG' :
     bullishVotes < 0.4 ? 'SHORT' : null;
@@ -0,0 +1,57 @@
+import type { Candle, HTFBias } from '../types';
+import { htfChain, calcHTFBias, combineHTFBias, biasAlignment } from './bias';
+
+/** Zigzag: `up` bars rising, `down` bars falling, repeated — 4h candles */
+function zigzag(n: number, up: number, down: number, step = 1): Candle[] {
+  const out: Candle[] = [];
+  let p = 100;
+  for (let i = 0; i < n; i++) {
+    const dir = i % (up + down) < up ? 1 : -1;
+    const open = p;
+    const close = p + dir * step;
+    const high = dir > 0 ? close + 0.3 : open + 0.1; // the turning bars get the extreme wicks
+    const low = dir > 0 ? open - 0.1 : close - 0.3;
+    out.push({ time: i * 14400000, open, high, low, close, volume: 100 });
+    p = close;
+  }
+  return out;
+}
+
+const bias = (score: number): HTFBias => ({
+  timeframe: '4h', bias: score >= 30 ? 'BULLISH' : score <= -30 ? 'BEARISH' : 'NEUTRAL', score, reason: '', lastStructure: null, pdZone: null,
+});
+
+describe('HTF bias', () => {
+  it('walks MTF_CONFIGS parents and stops at the top', () => {
+    expect(htfChain('15m')).toEqual(['4h', '1w']);
+    expect(htfChain('4h')).toEqual(['1w']);
+    expect(htfChain('1w')).toEqual([]);
+  });
+
+  it('reads an uptrend as bullish and a downtrend as bearish', () => {
+    const up = calcHTFBias(zigzag(200, 8, 4), '4h');
+    expect(up.bias).toBe('BULLISH');
+    expect(up.lastStructure?.type).toMatch(/BULL/);
+
+    const down = calcHTFBias(zigzag(200, 4, 8), '4h');
+    expect(down.bias).toBe('BEARISH');
+    expect(down.lastStructure?.type).toMatch(/BEAR/);
+  });
+
+  it('stays neutral without enough history', () => {
+    expect(calcHTFBias(zigzag(20, 8, 4), '4h')).toMatchObject({ bias: 'NEUTRAL', score: 0 });
+  });
+
+  it('weights the nearest parent most', () => {
+    expect(combineHTFBias([bias(60), bias(-60)])?.score).toBe(15); // (60 - 36) / 1.6
+    expect(combineHTFBias([bias(-40), bias(60)])?.bias).toBe('NEUTRAL');
+    expect(combineHTFBias([])).toBeNull();
+  });
+
+  it('checks a trade against the bias', () => {
+    expect(biasAlignment(bias(60), 'LONG')).toBe('ALIGNED');
+    expect(biasAlignment(bias(60), 'SHORT')).toBe('OPPOSED');
+    expect(biasAlignment(bias(0), 'LONG')).toBe('NEUTRAL');
+    expect(biasAlignment(null, 'LONG')).toBe('NEUTRAL');
+  });
+});
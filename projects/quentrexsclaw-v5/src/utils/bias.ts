@@ -0,0 +1,111 @@
+/**
+ * utils/bias.ts
+ * Higher-timeframe bias layer — structure + PD array on the parent timeframe(s)
+ * reduced to BULLISH / BEARISH / NEUTRAL with a human-readable reason.
+ */
+
+import type { Candle, HTFBias, BiasDirection, PDZone, Timeframe } from '../types';
+import { pdScore } from './ict';
+import { MTF_CONFIGS } from './liquidity';
+import { IctEngine } from './engine';
+
+// ─── TIMEFRAME CHAIN ──────────────────────────────────────────────────────────
+
+/** Parent timeframes of `tf` via MTF_CONFIGS, nearest first (e.g. 15m → 4h → 1w). */
+export function htfChain(tf: Timeframe, depth = 2): Timeframe[] {
+  const chain: Timeframe[] = [];
+  let cur = tf;
+  for (let d = 0; d < depth; d++) {
+    const parent = MTF_CONFIGS[cur].parent;
+    if (parent === cur || chain.includes(parent)) break;
+    chain.push(parent);
+    cur = parent;
+  }
+  return chain;
+}
+
+// ─── SINGLE-TIMEFRAME BIAS ────────────────────────────────────────────────────
+
+/**
+ * Bias from one HTF candle series (last candle assumed still forming).
+ *
+ * Score:
+ * - Latest structure point: ±50 (±60 if MSS or closed beyond the level)
+ * - PD positioning: ±25 when price sits in discount / premium
+ * BULLISH ≥ +30, BEARISH ≤ -30, otherwise NEUTRAL.
+ */
+export function calcHTFBias(candles: Candle[], timeframe: Timeframe): HTFBias {
+  const neutral: HTFBias = {
+    timeframe, bias: 'NEUTRAL', score: 0,
+    reason: `${timeframe}: not enough data`, lastStructure: null, pdZone: null,
+  };
+  if (candles.length < 30) return neutral;
+
+  const engine = new IctEngine(timeframe);
+  engine.sync(candles.slice(0, -1));
+  const price = candles[candles.length - 1].close;
+  const { structure, pdArray } = engine.snapshot(price);
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  const last = structure[structure.length - 1] ?? null;
+  if (last) {
+    const bull = last.type.includes('BULL');
+    const strong = last.type.startsWith('MSS') || last.confirmed;
+    score += (bull ? 1 : -1) * (strong ? 60 : 50);
+    reasons.push(`${last.type} @ ${last.price.toFixed(3)}`);
+  } else {
+    reasons.push('no structure break');
+  }
+
+  let pdZone: PDZone | null = null;
+  if (pdArray) {
+    const pds = pdScore(pdArray, price);
+    pdZone = pds > 62 ? 'DISCOUNT' : pds < 38 ? 'PREMIUM' : 'EQUILIBRIUM';
+    if (pdZone === 'DISCOUNT') score += 25;
+    if (pdZone === 'PREMIUM')  score -= 25;
+    reasons.push(`price in ${pdZone}${pdArray.provisional ? ' (provisional range)' : ''}`);
+  }
+
+  score = Math.max(-100, Math.min(100, score));
+  return {
+    timeframe,
+    bias: toBias(score),
+    score,
+    reason: `${timeframe}: ${reasons.join(' · ')}`,
+    lastStructure: last,
+    pdZone,
+  };
+}
+
+// ─── COMBINED BIAS ────────────────────────────────────────────────────────────
+
+/**
+ * Blend per-timeframe biases into one. The nearest parent gets the most
+ * weight, further parents progressively less (1, 0.6, 0.36…).
+ */
+export function combineHTFBias(biases: HTFBias[]): HTFBias | null {
+  if (!biases.length) return null;
+
+  let wSum = 0, sSum = 0, w = 1;
+  for (const b of biases) { sSum += b.score * w; wSum += w; w *= 0.6; }
+  const score = Math.round(sSum / wSum);
+
+  return {
+    ...biases[0],
+    bias: toBias(score),
+    score,
+    reason: biases.map(b => b.reason).join(' | '),
+  };
+}
+
+/** Does the HTF bias agree with a proposed trade direction? */
+export function biasAlignment(bias: HTFBias | null | undefined, direction: 'LONG' | 'SHORT'): 'ALIGNED' | 'OPPOSED' | 'NEUTRAL' {
+  if (!bias || bias.bias === 'NEUTRAL') return 'NEUTRAL';
+  return (bias.bias === 'BULLISH') === (direction === 'LONG') ? 'ALIGNED' : 'OPPOSED';
+}
+
+function toBias(score: number): BiasDirection {
+  return score >= 30 ? 'BULLISH' : score <= -30 ? 'BEARISH' : 'NEUTRAL';
+}
@@ -0,0 +1,83 @@
+import type { FairValueGap, OrderBlock, SwingPoint, Timeframe } from '../types';
+import {
+  buildConfluenceMap, zonesNear, zonesAgainst, confluenceEdge, liquidityTargets, zoneKinds,
+} from './confluence';
+import type { ConfluenceArrays, ConfluenceInput } from './confluence';
+import { createLiquidityLevel } from './liquidity';
+
+const none: ConfluenceArrays = { obs: [], breakers: [], fvgs: [], ifvgs: [], volumeImbalances: [], liquidityVoids: [], levels: [], pdArray: null };
+
+const ob = (timeframe: Timeframe, type: 'BULLISH' | 'BEARISH', bottom: number, top: number, mitigated = false): OrderBlock => ({
+  id: `ob_${timeframe}_${bottom}`, type, top, bottom, meanThreshold: (top + bottom) / 2, time: 0, startTime: 0, candleCount: 1,
+  definition: 'BODY', mitigated, mitigationState: 'UNTOUCHED', volume: 100, strength: 50, timeframe,
+});
+
+const fvg = (timeframe: Timeframe, type: 'BULLISH' | 'BEARISH', bottom: number, top: number): FairValueGap => ({
+  id: `fvg_${timeframe}_${bottom}`, type, top, bottom, time: 0, midpoint: (top + bottom) / 2, filled: false, fillPercent: 0,
+  state: 'FRESH', ceBroken: false, ageBars: 0, timeframe,
+});
+
+/** 1h liquidity at `price`, tested four times (strength 90) */
+const level = (price: number, type: 'HIGH' | 'LOW', status: SwingPoint['status'] = 'CONFIRMED') =>
+  createLiquidityLevel({ index: 0, time: price, price, type, status }, '1h', 4);
+
+// Price 100: bullish 1h OB + 15m FVG just below, highs above, a low and a bearish 4h OB further out
+const inputs: ConfluenceInput[] = [
+  { timeframe: '1h', arrays: { ...none, obs: [ob('1h', 'BULLISH', 99, 99.4), ob('1h', 'BULLISH', 95, 95.5, true)], levels: [level(101, 'HIGH'), level(103, 'HIGH'), level(98, 'LOW')] } },
+  { timeframe: '15m', arrays: { ...none, fvgs: [fvg('15m', 'BULLISH', 99.3, 99.6), fvg('15m', 'BEARISH', 90, 94)] } },
+  { timeframe: '4h', arrays: { ...none, obs: [ob('4h', 'BEARISH', 102, 102.5)] } },
+];
+const map = buildConfluenceMap(inputs, 100);
+const zoneAt = (price: number) => map.zones.find(z => z.bottom <= price && z.top >= price)!;
+
+describe('confluence map', () => {
+  it('merges overlapping arrays from different timeframes into one band', () => {
+    const z = zoneAt(99.5);
+    expect(z).toMatchObject({ bottom: 99, top: 99.6, bias: 'BULLISH', timeframes: ['1h', '15m'] });
+    expect(z.score).toBe(29); // (12 + 9) × 1.25 per extra timeframe × 1.1 per extra kind
+    expect(z.distancePct).toBeCloseTo(0.4);
+    expect(zoneKinds(z)).toBe('OB + FVG');
+  });
+
+  it('leaves out mitigated blocks and arrays taller than a band may be', () => {
+    expect(zoneAt(95.2)).toBeUndefined();
+    expect(zoneAt(92)).toBeUndefined();
+  });
+
+  it('ranks zones by score', () => {
+    const scores = map.zones.map(z => z.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('finds aligned zones near price and opposing zones in the path', () => {
+    expect(zonesNear(map, 'LONG')).toEqual([zoneAt(99.5)]);
+    expect(zonesAgainst(map, 'LONG')).toEqual([zoneAt(101)]); // the 4h OB is 2% away
+    expect(zonesAgainst(map, 'LONG', 100, 3).map(z => z.top)).toEqual(expect.arrayContaining([101, 102.5, 103]));
+    expect(zonesNear(map, 'SHORT')).toEqual([zoneAt(101)]);
+  });
+
+  it('anchors entries on the proximal edge of the nearest block', () => {
+    expect(confluenceEdge(map, 'LONG')).toBe(99.4);
+    expect(confluenceEdge(map, 'SHORT')).toBeNull();
+  });
+
+  describe('liquidity targets', () => {
+    it('draws toward liquidity in the path, nearer first', () => {
+      const targets = liquidityTargets(map, 'LONG');
+      expect(targets.map(t => t.liquidity.top)).toEqual([101, 103]);
+      expect(targets.map(t => t.magnetScore)).toEqual([9, 4]); // score 11 fading to 0 at 5%
+      expect(liquidityTargets(map, 'SHORT').map(t => t.liquidity.top)).toEqual([98]);
+      expect(liquidityTargets(map, 'LONG', 100, 2).map(t => t.liquidity.top)).toEqual([101]);
+    });
+
+    it('skips liquidity price is already through', () => {
+      expect(liquidityTargets(map, 'LONG', 101.5).map(t => t.liquidity.top)).toEqual([103]);
+    });
+
+    it('discounts a level on a provisional swing', () => {
+      const weight = (status: SwingPoint['status']) =>
+        buildConfluenceMap([{ timeframe: '1h', arrays: { ...none, levels: [level(101, 'HIGH', status)] } }], 100).zones[0].contributors[0].weight;
+      expect(weight('PROVISIONAL')).toBeCloseTo(weight('CONFIRMED') * 0.8);
+    });
+  });
+});
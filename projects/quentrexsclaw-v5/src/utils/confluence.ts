@@ -0,0 +1,270 @@
+/**
+ * utils/confluence.ts
+ * Multi-timeframe confluence map — OBs, breakers, FVGs, IFVGs, BPRs, volume
+ * imbalances / voids, liquidity levels and PD-array levels from every timeframe
+ * merged into ranked price bands. Agents and the dashboard read proximity from
+ * this one map instead of keeping their own range constants.
+ */
+
+import type {
+  ConfluenceContributor, ConfluenceMap, ConfluenceZone, LiquidityLevel, Timeframe,
+} from '../types';
+import type { IctSnapshot } from './engine';
+import { isFVGActive, detectBPR } from './ict';
+import { TIMEFRAME_WEIGHT, poolLabel, isPool, isProvisional } from './liquidity';
+import { TIMEFRAME_MINUTES, sessionLevelLabel } from './sessions';
+
+export const CONFLUENCE_MERGE_PCT = 0.1;     // contributors this close (% of price) share a band
+export const CONFLUENCE_MAX_ZONE_PCT = 3;    // taller arrays / bands are not merged (they would swallow the map)
+export const CONFLUENCE_NEAR_PCT = 1.5;      // a zone this close (% of price) is "at price"
+export const CONFLUENCE_TARGET_PCT = 5;      // liquidity this far (% of price) still draws price
+
+/** The arrays of one timeframe — an IctSnapshot fits */
+export type ConfluenceArrays = Pick<
+  IctSnapshot,
+  'obs' | 'breakers' | 'fvgs' | 'ifvgs' | 'volumeImbalances' | 'liquidityVoids' | 'levels' | 'pdArray'
+>;
+
+export interface ConfluenceInput {
+  timeframe: Timeframe;
+  arrays: ConfluenceArrays;
+}
+
+// ─── BUILD ────────────────────────────────────────────────────────────────────
+
+/**
+ * Merge every input's contributors (plus BPRs across all of them) into bands:
+ * sorted by price, a contributor joins the open band when it starts within
+ * CONFLUENCE_MERGE_PCT of the band's top. Score = summed weights × 1.25 per extra
+ * timeframe × 1.1 per extra kind, capped at 100. Bias needs one side ≥ 2× the other.
+ */
+export function buildConfluenceMap(inputs: ConfluenceInput[], price: number): ConfluenceMap {
+  const maxHeight = price * CONFLUENCE_MAX_ZONE_PCT / 100;
+  const tol = price * CONFLUENCE_MERGE_PCT / 100;
+  const items = [
+    ...inputs.flatMap(i => confluenceContributors(i.timeframe, i.arrays)),
+    ...bprContributors(inputs),
+  ]
+    .filter(c => c.top - c.bottom <= maxHeight)
+    .sort((a, b) => a.bottom - b.bottom || a.top - b.top);
+
+  const groups: ConfluenceContributor[][] = [];
+  let band: ConfluenceContributor[] = [];
+  let bandTop = -Infinity;
+  for (const c of items) {
+    const tooTall = band.length > 0 && Math.max(bandTop, c.top) - band[0].bottom > maxHeight;
+    if (band.length && (c.bottom - bandTop > tol || tooTall)) {
+      groups.push(band);
+      band = [];
+      bandTop = -Infinity;
+    }
+    band.push(c);
+    bandTop = Math.max(bandTop, c.top);
+  }
+  if (band.length) groups.push(band);
+
+  return { price, zones: groups.map(g => toZone(g, price)).sort((a, b) => b.score - a.score) };
+}
+
+/** One timeframe's live arrays as contributors, weighted by TIMEFRAME_WEIGHT */
+export function confluenceContributors(timeframe: Timeframe, a: ConfluenceArrays): ConfluenceContributor[] {
+  const w = TIMEFRAME_WEIGHT[timeframe];
+  const out: ConfluenceContributor[] = [];
+  const side = (type: 'BULLISH' | 'BEARISH') => (type === 'BULLISH' ? 'bull' : 'bear');
+
+  for (const ob of a.obs) {
+    if (ob.mitigated) continue;
+    out.push({
+      kind: 'OB', id: ob.id, timeframe, bias: ob.type, top: ob.top, bottom: ob.bottom,
+      weight: w * (10 + ob.strength * 0.2), label: `${timeframe} ${side(ob.type)} OB`,
+    });
+  }
+  for (const bb of a.breakers) {
+    if (bb.state !== 'CONFIRMED' && bb.state !== 'RETESTED') continue;
+    const pts = bb.kind === 'BREAKER' ? (bb.state === 'RETESTED' ? 24 : 18) : (bb.state === 'RETESTED' ? 14 : 10);
+    out.push({
+      kind: 'BREAKER', id: bb.id, timeframe, bias: bb.type, top: bb.top, bottom: bb.bottom,
+      weight: w * pts, label: `${timeframe} ${side(bb.type)} ${bb.kind === 'BREAKER' ? 'breaker' : 'mitigation'} ${bb.state.toLowerCase()}`,
+    });
+  }
+  for (const f of a.fvgs) {
+    if (!isFVGActive(f)) continue;
+    const pts = f.state === 'CE_RESPECTED' ? 24 : f.state === 'FRESH' ? 20 : 4 + 16 * (1 - f.fillPercent / 100);
+    const label = f.state === 'CE_RESPECTED' ? 'CE held' : f.state === 'FRESH' ? 'fresh' : `${f.fillPercent.toFixed(0)}% eaten`;
+    out.push({
+      kind: 'FVG', id: f.id, timeframe, bias: f.type, top: f.top, bottom: f.bottom,
+      weight: w * pts, label: `${timeframe} ${side(f.type)} FVG ${label}`,
+    });
+  }
+  for (const f of a.ifvgs) {
+    if (!isFVGActive(f)) continue;
+    out.push({
+      kind: 'IFVG', id: f.id, timeframe, bias: f.type, top: f.top, bottom: f.bottom,
+      weight: w * 14, label: `${timeframe} IFVG ${side(f.originalType)}→${side(f.type)}`,
+    });
+  }
+  for (const z of [...a.volumeImbalances, ...a.liquidityVoids]) {
+    if (!isFVGActive(z)) continue;
+    const isVoid = z.kind === 'LIQUIDITY_VOID';
+    out.push({
+      kind: z.kind, id: z.id, timeframe, bias: z.type, top: z.top, bottom: z.bottom,
+      weight: w * (isVoid ? 10 : 6), label: `${timeframe} ${side(z.type)} ${isVoid ? 'liquidity void' : 'volume imbalance'}`,
+    });
+  }
+  for (const l of a.levels) {
+    if (l.status !== 'ACTIVE') continue;
+    // Pools stack resting stops, liquidation clusters fill as market orders, provisional swings may still be cancelled
+    const pool = isPool(l) ? Math.min(15, (l.members.length - 1) * 8) : 0;
+    const forced = l.origin === 'LIQUIDATION' ? l.strength * 0.1 : 0;
+    out.push({
+      kind: 'LIQUIDITY', id: l.id, timeframe, bias: l.type === 'HIGH' ? 'BEARISH' : 'BULLISH', top: l.price, bottom: l.price,
+      weight: w * (l.strength * 0.2 + pool + forced) * (isProvisional(l) ? 0.8 : 1), label: `${timeframe} ${levelLabel(l)}`,
+    });
+  }
+  if (a.pdArray) {
+    const pts = a.pdArray.provisional ? 6 : 10;
+    const lines: Array<[string, number, ConfluenceContributor['bias']]> = [
+      ['premium', a.pdArray.premium, 'BEARISH'],
+      ['equilibrium', a.pdArray.equilibrium, 'NEUTRAL'],
+      ['discount', a.pdArray.discount, 'BULLISH'],
+    ];
+    for (const [name, p, bias] of lines) {
+      out.push({
+        kind: 'PD_LEVEL', id: `pd_${timeframe}_${name}`, timeframe, bias, top: p, bottom: p,
+        weight: w * pts, label: `${timeframe} ${name}`,
+      });
+    }
+  }
+  return out;
+}
+
+// ─── QUERIES ──────────────────────────────────────────────────────────────────
+
+/**
+ * Zones of the trade's bias at or beyond `price` (bullish containing / below for
+ * longs, bearish containing / above for shorts) within pctRange%, best first.
+ */
+export function zonesNear(
+  map: ConfluenceMap,
+  direction: 'LONG' | 'SHORT',
+  price = map.price,
+  pctRange = CONFLUENCE_NEAR_PCT
+): ConfluenceZone[] {
+  const bias = direction === 'LONG' ? 'BULLISH' : 'BEARISH';
+  return map.zones.filter(z =>
+    z.bias === bias &&
+    (direction === 'LONG' ? z.bottom <= price : z.top >= price) &&
+    zoneDistancePct(z, price) <= pctRange
+  );
+}
+
+/** Opposing zones in the trade's path (bearish above longs, bullish below shorts) within pctRange%, best first */
+export function zonesAgainst(
+  map: ConfluenceMap,
+  direction: 'LONG' | 'SHORT',
+  price = map.price,
+  pctRange = CONFLUENCE_NEAR_PCT
+): ConfluenceZone[] {
+  const bias = direction === 'LONG' ? 'BEARISH' : 'BULLISH';
+  return map.zones.filter(z =>
+    z.bias === bias &&
+    (direction === 'LONG' ? z.top >= price : z.bottom <= price) &&
+    zoneDistancePct(z, price) <= pctRange
+  );
+}
+
+/**
+ * Proximal edge of the OB / breaker contributors in the nearest aligned zone
+ * (top for longs, bottom for shorts) — the execution agent's entry anchor.
+ */
+export function confluenceEdge(map: ConfluenceMap, direction: 'LONG' | 'SHORT', price = map.price): number | null {
+  let best: number | null = null;
+  for (const z of zonesNear(map, direction, price)) {
+    const blocks = z.contributors.filter(c => (c.kind === 'OB' || c.kind === 'BREAKER') && c.bias === z.bias);
+    if (!blocks.length) continue;
+    const edge = direction === 'LONG' ? Math.max(...blocks.map(c => c.top)) : Math.min(...blocks.map(c => c.bottom));
+    if (best === null || Math.abs(price - edge) < Math.abs(price - best)) best = edge;
+  }
+  return best;
+}
+
+/**
+ * Liquidity the trade draws toward: zones holding resting liquidity in its path
+ * (highs above longs, lows below shorts) within pctRange%, scored by the zone's
+ * score fading linearly to 0 at pctRange. Best first.
+ */
+export function liquidityTargets(
+  map: ConfluenceMap,
+  direction: 'LONG' | 'SHORT',
+  price = map.price,
+  pctRange = CONFLUENCE_TARGET_PCT
+): Array<{ zone: ConfluenceZone; liquidity: ConfluenceContributor; magnetScore: number }> {
+  const side = direction === 'LONG' ? 'BEARISH' : 'BULLISH'; // HIGH levels contribute as BEARISH
+  const out: Array<{ zone: ConfluenceZone; liquidity: ConfluenceContributor; magnetScore: number }> = [];
+  for (const zone of map.zones) {
+    const dist = zoneDistancePct(zone, price);
+    if (dist > pctRange) continue;
+    const liquidity = zone.contributors.find(c =>
+      c.kind === 'LIQUIDITY' && c.bias === side && (direction === 'LONG' ? c.top >= price : c.bottom <= price)
+    );
+    if (liquidity) out.push({ zone, liquidity, magnetScore: Math.round(zone.score * (1 - dist / pctRange)) });
+  }
+  return out.sort((a, b) => b.magnetScore - a.magnetScore);
+}
+
+/** Distinct kinds in a zone, e.g. "OB + FVG + LIQUIDITY" */
+export function zoneKinds(z: ConfluenceZone): string {
+  return Array.from(new Set(z.contributors.map(c => c.kind))).join(' + ');
+}
+
+export function zoneDistancePct(z: Pick<ConfluenceZone, 'top' | 'bottom'>, price: number): number {
+  if (price > z.top) return (price - z.top) / price * 100;
+  if (price < z.bottom) return (z.bottom - price) / price * 100;
+  return 0;
+}
+
+// ─── HELPERS ──────────────────────────────────────────────────────────────────
+
+/** Active bullish × bearish FVG overlaps across every input, weighted by the higher timeframe */
+function bprContributors(inputs: ConfluenceInput[]): ConfluenceContributor[] {
+  const fvgs = inputs.flatMap(i => i.arrays.fvgs);
+  return detectBPR(fvgs.filter(f => f.type === 'BULLISH'), fvgs.filter(f => f.type === 'BEARISH')).map(b => {
+    const timeframe = highestTimeframe(b.timeframes);
+    return {
+      kind: 'BPR', id: `bpr_${b.bullId}_${b.bearId}`, timeframe, bias: 'NEUTRAL', top: b.top, bottom: b.bottom,
+      weight: TIMEFRAME_WEIGHT[timeframe] * (10 + b.strength * 0.1), label: `${b.timeframes.join('/')} BPR`,
+    };
+  });
+}
+
+function toZone(group: ConfluenceContributor[], price: number): ConfluenceZone {
+  const top = Math.max(...group.map(c => c.top));
+  const bottom = Math.min(...group.map(c => c.bottom));
+  const timeframes = Array.from(new Set(group.map(c => c.timeframe)))
+    .sort((a, b) => TIMEFRAME_MINUTES[b] - TIMEFRAME_MINUTES[a]);
+  const kinds = new Set(group.map(c => c.kind)).size;
+  const raw = group.reduce((s, c) => s + c.weight, 0);
+  const bull = group.filter(c => c.bias === 'BULLISH').reduce((s, c) => s + c.weight, 0);
+  const bear = group.filter(c => c.bias === 'BEARISH').reduce((s, c) => s + c.weight, 0);
+  return {
+    id: `cz_${bottom}_${top}`,
+    top,
+    bottom,
+    score: Math.min(100, Math.round(raw * (1 + 0.25 * (timeframes.length - 1)) * (1 + 0.1 * (kinds - 1)))),
+    bias: bull > 0 && bull >= 2 * bear ? 'BULLISH' : bear > 0 && bear >= 2 * bull ? 'BEARISH' : 'NEUTRAL',
+    timeframes,
+    contributors: [...group].sort((a, b) => b.weight - a.weight),
+    distancePct: zoneDistancePct({ top, bottom }, price),
+  };
+}
+
+function highestTimeframe(tfs: Timeframe[]): Timeframe {
+  return tfs.reduce((a, b) => (TIMEFRAME_MINUTES[b] > TIMEFRAME_MINUTES[a] ? b : a));
+}
+
+function levelLabel(l: LiquidityLevel): string {
+  if (l.source) return sessionLevelLabel(l.source);
+  if (l.origin === 'BOOK') return `book wall ${l.type === 'HIGH' ? 'ask' : 'bid'}`;
+  if (l.origin === 'LIQUIDATION') return `${l.type === 'HIGH' ? 'short' : 'long'} liquidations`;
+  return poolLabel(l) ?? `swing ${l.type.toLowerCase()}`;
+}
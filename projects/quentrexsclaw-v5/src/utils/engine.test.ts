@@ -0,0 +1,63 @@
+import type { Candle, FairValueGap } from '../types';
+import { IctEngine, ENGINE_KEEP_BARS } from './engine';
+import { detectFVGs, detectSwings } from './ict';
+import { walk } from './testCandles';
+
+const candles = walk(600);
+
+/** Closed through or expired before `since` */
+const endedBefore = (f: FairValueGap, since: number) => (f.state === 'CLOSED_THROUGH' || f.state === 'EXPIRED') && f.stateTime! < since;
+
+function pushed(cs: Candle[]): IctEngine {
+  const e = new IctEngine('15m');
+  for (const c of cs) e.push(c);
+  return e;
+}
+
+describe('IctEngine', () => {
+  it('gives the same snapshot whether fed by sync windows or by push', () => {
+    const synced = new IctEngine('15m');
+    for (let end = 100; end <= candles.length; end += 37) synced.sync(candles.slice(Math.max(0, end - 300), end));
+    synced.sync(candles);
+    expect(synced.snapshot()).toEqual(pushed(candles).snapshot());
+  });
+
+  it('drops duplicate and out-of-order candles', () => {
+    const e = pushed(candles.slice(0, 100));
+    expect(e.push(candles[99])).toBe(false);
+    expect(e.push(candles[50])).toBe(false);
+    expect(e.length).toBe(100);
+    expect(e.push(candles[100])).toBe(true);
+    expect(e.lastTime).toBe(candles[100].time);
+  });
+
+  it('replays from scratch when its last candle is not in the history', () => {
+    const e = pushed(candles.slice(0, 200));
+    const other = walk(300, 7).map(c => ({ ...c, time: c.time + 450000 }));
+    e.sync(other);
+    expect(e.snapshot()).toEqual(pushed(other).snapshot());
+  });
+
+  it('matches the batch detectors over the kept window', () => {
+    const snap = pushed(candles).snapshot();
+    const since = candles[candles.length - 1 - ENGINE_KEEP_BARS].time;
+    expect(snap.fvgs).toEqual(detectFVGs(candles, '15m').filter(f => !endedBefore(f, since)));
+
+    const batch = detectSwings(candles, 5, 5).map(s => s.time);
+    const kept = snap.swings.map(s => s.time);
+    expect(batch).toEqual(expect.arrayContaining(kept));
+    expect(kept).toEqual(expect.arrayContaining(batch.filter(t => t >= since)));
+  });
+
+  it('prunes what ended more than ENGINE_KEEP_BARS ago', () => {
+    const long = walk(2000, 3);
+    const snap = pushed(long).snapshot();
+    const since = long[long.length - 1 - ENGINE_KEEP_BARS].time;
+    expect([...snap.fvgs, ...snap.ifvgs, ...snap.volumeImbalances, ...snap.liquidityVoids].some(f => endedBefore(f, since))).toBe(false);
+    expect(snap.obs.every(ob => !ob.mitigated || ob.mitigationTime! >= since)).toBe(true);
+    expect(snap.breakers.every(bb => bb.state !== 'INVALIDATED' || bb.history[bb.history.length - 1].time >= since)).toBe(true);
+    expect(snap.setups.every(s => s.displacementCandle.time >= since)).toBe(true);
+    expect(snap.swings.length).toBeLessThan(detectSwings(long, 5, 5).length);
+    expect(snap.swings.filter(s => s.type === 'HIGH').length).toBeGreaterThanOrEqual(3);
+  });
+});
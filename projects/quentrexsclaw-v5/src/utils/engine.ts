@@ -0,0 +1,472 @@
+/**
+ * utils/engine.ts
+ * Streaming ICT engine — feed one closed candle at a time.
+ * Swings, structure, OB/FVG mitigation and sweeps are updated incrementally,
+ * so the live dashboard and the backtest walk the same causal path in O(n).
+ */
+
+import type {
+  Candle, SwingPoint, StructurePoint, OrderBlock, FairValueGap,
+  LiquidityLevel, PDArray, Timeframe, BreakerBlock, InverseFVG,
+  VolumeImbalance, LiquidityVoid, OTEZone, DailyNarrative, VolatilityProfile, DealingRange,
+  OBDefinition, VolumeProfile, ValueAreaReclaim
+} from '../types';
+import {
+  updateProvisionalSwings, findOrderBlock, updateOBMitigation,
+  detectFVGAt, updateFVGState, invertFVG, calcPDArray, oteFromLeg,
+  addDealingLeg, dealingRangesFromLegs, currentDealingRange, pdArrayFromRange,
+  detectMSS, applyMSS, MSS_WINDOW,
+  checkOBFailure, updateBreakerBlock,
+  detectVolumeImbalanceAt, detectLiquidityVoidEndingAt,
+} from './ict';
+import type { DealingLeg } from './ict';
+import {
+  createLiquidityLevel, detectSweepFVGAt, updateTrackedLevel, addLiquiditySwing, isLevelLive,
+} from './liquidity';
+import type { TrackedLevel } from './liquidity';
+import { nextATR, trueRange, calcVolatility } from './volatility';
+import { createSessionTracker, updateSessionTracker, trackSessionLevel, MMT_OFFSET_MIN } from './sessions';
+import type { SessionTracker } from './sessions';
+import { detectDailyNarrative } from './po3';
+import { referenceProfile, detectValueAreaReclaim } from './profile';
+import type { SweepFVGSetup } from './liquidity';
+
+// ─── CONFIG / SNAPSHOT ────────────────────────────────────────────────────────
+
+export interface IctEngineOptions {
+  swingLeft: number;         // structure swings (detectSwings leftLen)
+  swingRight: number;
+  liqLeft: number;           // liquidity swings (detectLiquiditySweeps leftLen)
+  liqRight: number;
+  fvgMinSizePct: number;
+  setupFvgMinSizePct: number;
+  sessionTzOffsetMin: number; // session / calendar levels (Asia, London, PDH…) in this timezone
+  obDefinition: OBDefinition; // candle range that forms an order block
+}
+
+export const DEFAULT_ENGINE_OPTIONS: IctEngineOptions = {
+  swingLeft: 5, swingRight: 5,
+  liqLeft: 5, liqRight: 5,
+  fvgMinSizePct: 0.05,
+  setupFvgMinSizePct: 0.03,
+  sessionTzOffsetMin: MMT_OFFSET_MIN,
+  obDefinition: 'WICK',
+};
+
+/** sync() replays from its rolling window once the engine holds this many candles */
+export const ENGINE_MAX_CANDLES = 5000;
+
+/**
+ * Ended arrays (mitigated OBs, invalidated breakers, closed-through / expired gaps),
+ * setups and swings / structure older than this many bars are pruned on each push,
+ * so a long push-only run (backtest, live session) stays O(1) per candle.
+ */
+export const ENGINE_KEEP_BARS = 100;
+/** Latest swings of each side and structure points always kept (PD-array fallback, structure agent) */
+const KEEP_SWINGS_PER_SIDE = 3;
+const KEEP_STRUCTURE = 8;
+
+export interface IctSnapshot {
+  swings: SwingPoint[];      // confirmed only
+  provisionalSwings: SwingPoint[];
+  structure: StructurePoint[];
+  obs: OrderBlock[];
+  breakers: BreakerBlock[];  // breakers + mitigation blocks, all states
+  fvgs: FairValueGap[];
+  ifvgs: InverseFVG[];
+  volumeImbalances: VolumeImbalance[];
+  liquidityVoids: LiquidityVoid[];
+  dealingRanges: DealingRange[];  // history, oldest first
+  dealingRange: { external: DealingRange | null; internal: DealingRange | null };
+  pdArray: PDArray | null;   // external dealing range; swing fallback (may be provisional)
+  ote: OTEZone | null;
+  narrative: DailyNarrative | null;
+  volatility: VolatilityProfile;
+  volumeProfile: VolumeProfile | null; // previous day (intraday) / previous week (4h, 1d)
+  vaReclaim: ValueAreaReclaim | null;
+  levels: LiquidityLevel[];  // provisional liquidity swings appended (never swept)
+  setups: SweepFVGSetup[];
+}
+
+/** Snapshot fields that depend only on the closed candles — computed once per candle */
+type CandleDerived = Pick<IctSnapshot, 'dealingRanges' | 'ote' | 'narrative' | 'volatility' | 'volumeProfile' | 'vaReclaim'>;
+
+// ─── ENGINE ───────────────────────────────────────────────────────────────────
+
+/**
+ * Only CLOSED candles may be pushed — a candle cannot be revised once ingested.
+ * Swings are reported provisionally from their own bar and only enter
+ * structure / liquidity once confirmed (swingRight bars later); a snapshot
+ * therefore holds exactly what was knowable at the last close.
+ * Structure is causal: a swing can only be broken after it is confirmed,
+ * and each swing is broken at most once.
+ */
+export class IctEngine {
+  readonly timeframe: Timeframe;
+  private readonly opts: IctEngineOptions;
+
+  private candles: Candle[] = [];
+  private volSum = 0;
+  private atr: number[] = [];  // Wilder ATR per candle
+
+  private swings: SwingPoint[] = [];
+  private liveSwings: SwingPoint[] = [];     // provisional structure swings
+  private liveLiqSwings: SwingPoint[] = [];  // provisional liquidity swings
+  private trend: 'UP' | 'DOWN' | null = null;
+  private lastHigh: SwingPoint | null = null;
+  private lastLow: SwingPoint | null = null;
+  private structure: StructurePoint[] = [];
+  private pendingShifts: Array<{ sp: StructurePoint; index: number }> = [];
+  private legs: DealingLeg[] = [];           // dealing-range legs (BOS / MSS)
+  private derived: { time: number | null; value: CandleDerived } | null = null;
+
+  private obs: Array<{ ob: OrderBlock; index: number; failed: boolean }> = [];
+  private breakers: BreakerBlock[] = [];
+  private fvgs: FairValueGap[] = [];
+  private ifvgs: InverseFVG[] = [];
+  private vis: VolumeImbalance[] = [];
+  private voids: LiquidityVoid[] = [];
+  private levels: TrackedLevel[] = [];
+  private sessions: SessionTracker;
+  private setups: SweepFVGSetup[] = [];
+
+  constructor(timeframe: Timeframe, opts: Partial<IctEngineOptions> = {}) {
+    this.timeframe = timeframe;
+    this.opts = { ...DEFAULT_ENGINE_OPTIONS, ...opts };
+    this.sessions = createSessionTracker(this.opts.sessionTzOffsetMin);
+  }
+
+  get length(): number {
+    return this.candles.length;
+  }
+
+  get lastTime(): number | null {
+    return this.candles.length ? this.candles[this.candles.length - 1].time : null;
+  }
+
+  reset(): void {
+    this.candles = []; this.volSum = 0; this.atr = [];
+    this.swings = []; this.liveSwings = []; this.liveLiqSwings = []; this.trend = null; this.lastHigh = null; this.lastLow = null;
+    this.structure = []; this.pendingShifts = []; this.legs = []; this.derived = null; this.obs = []; this.breakers = []; this.fvgs = []; this.ifvgs = []; this.vis = []; this.voids = []; this.levels = []; this.setups = [];
+    this.sessions = createSessionTracker(this.opts.sessionTzOffsetMin);
+  }
+
+  /**
+   * Bring the engine up to date with a (rolling) closed-candle array.
+   * Appends only what is new; replays from scratch if the history no longer lines up,
+   * or once it would grow past ENGINE_MAX_CANDLES (keeps a long-running session bounded).
+   */
+  sync(closed: Candle[]): void {
+    const last = this.lastTime;
+    let from = 0;
+    if (last !== null) {
+      const idx = closed.findIndex(c => c.time === last);
+      if (idx === -1 || this.candles.length + closed.length - idx - 1 > ENGINE_MAX_CANDLES) this.reset();
+      else from = idx + 1;
+    }
+    for (let i = from; i < closed.length; i++) this.push(closed[i]);
+  }
+
+  /** Ingest one closed candle. Returns false if it was dropped (out of order / duplicate). */
+  push(candle: Candle): boolean {
+    const last = this.lastTime;
+    if (last !== null && candle.time <= last) return false;
+
+    this.candles.push(candle);
+    this.volSum += candle.volume;
+    const n = this.candles.length - 1;
+    this.atr.push(nextATR(this.atr[n - 1], trueRange(this.candles, n), n));
+
+    this.confirmSwing(n);
+    this.updateStructure(n);
+    this.updateArrays(n);
+    this.updateLiquidity(n);
+    this.prune(n);
+    return true;
+  }
+
+  snapshot(currentPrice?: number): IctSnapshot {
+    const price = currentPrice ?? this.candles[this.candles.length - 1]?.close ?? 0;
+    const { dealingRanges, ote, narrative, volatility, volumeProfile, vaReclaim } = this.candleDerived();
+    const dealingRange = currentDealingRange(dealingRanges);
+    return {
+      swings:    [...this.swings],
+      provisionalSwings: [...this.liveSwings],
+      structure: [...this.structure],
+      obs:       this.obs.map(t => t.ob),
+      breakers:  [...this.breakers],
+      fvgs:      [...this.fvgs],
+      ifvgs:     [...this.ifvgs],
+      volumeImbalances: [...this.vis],
+      liquidityVoids:   [...this.voids],
+      dealingRanges: [...dealingRanges],
+      dealingRange,
+      pdArray:   dealingRange.external
+        ? pdArrayFromRange(dealingRange.external, price)
+        : calcPDArray([...this.swings, ...this.liveSwings], price),
+      ote,
+      narrative,
+      volatility,
+      volumeProfile,
+      vaReclaim,
+      levels:    [...this.levels.map(t => t.level), ...this.liveLiqSwings.map(sw => createLiquidityLevel(sw, this.timeframe))],
+      setups:    [...this.setups].sort((a, b) => b.quality - a.quality),
+    };
+  }
+
+  /** Each read walks back only as far as it needs (today, the reference period, the open legs) */
+  private candleDerived(): CandleDerived {
+    const time = this.lastTime;
+    if (this.derived?.time === time) return this.derived.value;
+    const tz = this.opts.sessionTzOffsetMin;
+    const lastLeg = this.legs[this.legs.length - 1];
+    const volumeProfile = referenceProfile(this.candles, this.timeframe, tz);
+    const value: CandleDerived = {
+      dealingRanges: dealingRangesFromLegs(this.legs, this.candles),
+      ote: lastLeg ? oteFromLeg(lastLeg, this.candles) : null,
+      narrative: detectDailyNarrative(this.candles, this.timeframe, tz),
+      volatility: calcVolatility(this.candles, this.atr, tz),
+      volumeProfile,
+      vaReclaim: volumeProfile && detectValueAreaReclaim(this.candles, volumeProfile),
+    };
+    this.derived = { time, value };
+    return value;
+  }
+
+  // ── Swings: provisional at once, confirmed `right` bars later (or cancelled) ──
+  private confirmSwing(n: number): void {
+    const { swingLeft: left, swingRight: right } = this.opts;
+    const { confirmed } = updateProvisionalSwings(this.candles, n, left, right, this.liveSwings);
+
+    for (const sw of confirmed) {
+      this.swings.push(sw);
+      if (sw.type === 'HIGH') this.lastHigh = sw;
+      else this.lastLow = sw;
+    }
+    if (this.trend === null && this.swings.length) {
+      this.trend = this.swings[0].type === 'LOW' ? 'UP' : 'DOWN';
+    }
+  }
+
+  // ── BOS / CHoCH against the latest unbroken confirmed swings, CHoCH → MSS ──
+  private updateStructure(n: number): void {
+    this.pendingShifts = this.pendingShifts.filter(({ sp, index }) => {
+      applyMSS(sp, detectMSS(this.candles, sp, index, n));
+      if (sp.type.includes('CHoCH')) return n < index + MSS_WINDOW + 1;
+      this.relegFrom(index, n); // the upgraded MSS now defines a leg
+      return false;
+    });
+
+    if (this.swings.length < 4) return;
+    const candle = this.candles[n];
+
+    if (this.lastHigh && candle.high > this.lastHigh.price) {
+      const isBOS = this.trend === 'UP';
+      this.addStructure(n, {
+        time: candle.time,
+        price: this.lastHigh.price,
+        type: isBOS ? 'BOS_BULL' : 'CHoCH_BULL',
+        confirmed: candle.close > this.lastHigh.price,
+        candle,
+        brokenSwing: this.lastHigh,
+      });
+      if (!isBOS) this.trend = 'UP'; // CHoCH flips trend
+      this.lastHigh = null;
+    }
+
+    if (this.lastLow && candle.low < this.lastLow.price) {
+      const isBOS = this.trend === 'DOWN';
+      this.addStructure(n, {
+        time: candle.time,
+        price: this.lastLow.price,
+        type: isBOS ? 'BOS_BEAR' : 'CHoCH_BEAR',
+        confirmed: candle.close < this.lastLow.price,
+        candle,
+        brokenSwing: this.lastLow,
+      });
+      if (!isBOS) this.trend = 'DOWN';
+      this.lastLow = null;
+    }
+  }
+
+  private addStructure(n: number, sp: StructurePoint): void {
+    if (sp.type.includes('CHoCH')) {
+      applyMSS(sp, detectMSS(this.candles, sp, n, n));
+      if (sp.type.includes('CHoCH')) this.pendingShifts.push({ sp, index: n });
+    }
+    this.structure.push(sp);
+    addDealingLeg(this.legs, this.candles, sp, n);
+    if (n < 3) return;
+
+    const ob = findOrderBlock(this.candles, n, sp, this.volSum / this.candles.length, this.timeframe, this.opts.obDefinition);
+    if (!ob || ob.strength <= 20) return; // filter weak blocks
+    if (this.obs.some(t => t.ob.id === ob.id)) return;
+
+    // Candles between the OB and the break may already have mitigated it
+    const obIdx = this.indexOfTime(ob.time, n);
+    for (let i = obIdx + 1; i <= n; i++) {
+      if (updateOBMitigation(ob, this.candles[i])) break;
+    }
+
+    // …or closed through it — replay the failure check the batch path runs from the OB on
+    // (candle n itself is checked in updateArrays)
+    const tracked = { ob, index: obIdx, failed: false };
+    const since = this.candles[obIdx].time;
+    const byTime = new Map<number, StructurePoint[]>();
+    for (let k = this.structure.length - 1; k >= 0 && this.structure[k].time > since; k--) {
+      const p = this.structure[k];
+      byTime.set(p.time, [p, ...(byTime.get(p.time) ?? [])]);
+    }
+    let bb: BreakerBlock | null = null;
+    for (let i = obIdx + 1; i < n; i++) {
+      const points = byTime.get(this.candles[i].time) ?? [];
+      if (bb) updateBreakerBlock(bb, this.candles[i], i, points);
+      else bb = checkOBFailure(ob, obIdx, this.candles, i, this.swings, points);
+    }
+    if (bb) { tracked.failed = true; this.breakers.push(bb); }
+    this.obs.push(tracked);
+  }
+
+  // ── New FVG on the last 3 candles, OB mitigation → breaker, FVG lifecycle → IFVG ──
+  private updateArrays(n: number): void {
+    const candle = this.candles[n];
+    const points = this.structureAt(candle.time);
+
+    for (const bb of this.breakers) updateBreakerBlock(bb, candle, n, points);
+    for (const t of this.obs) {
+      updateOBMitigation(t.ob, candle);
+      if (t.failed || t.index >= n) continue;
+      const bb = checkOBFailure(t.ob, t.index, this.candles, n, this.swings, points);
+      if (bb) { t.failed = true; this.breakers.push(bb); }
+    }
+    for (const ifvg of this.ifvgs) updateFVGState(ifvg, candle);
+    for (const fvg of this.fvgs) {
+      if (fvg.state === 'CLOSED_THROUGH' || fvg.state === 'EXPIRED') continue;
+      if (updateFVGState(fvg, candle)) {
+        const ifvg = invertFVG(fvg, candle); // null when it expired instead
+        if (ifvg) this.ifvgs.push(ifvg);
+      }
+    }
+
+    if (n >= 2) {
+      const fvg = detectFVGAt(this.candles, n - 1, this.timeframe, this.opts.fvgMinSizePct);
+      if (fvg) this.fvgs.push(fvg); // candle n confirms the gap — age 0
+    }
+
+    // Volume imbalances (2-candle) and liquidity voids (run ending at n-1)
+    for (const z of this.vis) updateFVGState(z, candle);
+    for (const z of this.voids) updateFVGState(z, candle);
+    if (n >= 1) {
+      const vi = detectVolumeImbalanceAt(this.candles, n, this.timeframe);
+      if (vi) this.vis.push(vi);
+      const lv = detectLiquidityVoidEndingAt(this.candles, n - 1, this.timeframe);
+      if (lv) this.voids.push(lv);
+    }
+  }
+
+  // ── Liquidity levels (EQH/EQL pools, sessions), sweeps, ageing / pruning and sweep→FVG setups ──
+  private updateLiquidity(n: number): void {
+    const candle = this.candles[n];
+    const tf = this.timeframe;
+
+    this.levels = this.levels.filter(t => updateTrackedLevel(t, this.candles, n, this.atr, tf));
+
+    // Session / calendar levels completed by this candle (already swept-checked against it)
+    for (const level of updateSessionTracker(this.sessions, candle, tf, this.atr[n])) {
+      this.levels.push(trackSessionLevel(level, this.candles, n, this.atr, tf));
+    }
+
+    const { liqLeft: left, liqRight: right } = this.opts;
+    const { confirmed } = updateProvisionalSwings(this.candles, n, left, right, this.liveLiqSwings);
+    for (const swing of confirmed) {
+      // A joined pool's "sweep" since the swing was this equal high/low forming — drop its setups
+      const joined = addLiquiditySwing(this.levels, swing, this.candles, n, this.atr, tf);
+      if (joined) this.setups = this.setups.filter(s => s.sweep !== joined);
+    }
+    this.levels = this.levels.filter(t => isLevelLive(t, n));
+
+    // Displacement candle (n-1) needs its successor (n) to prove the FVG
+    const d = n - 1;
+    for (const t of this.levels) {
+      if (t.sweepIndex === undefined || t.sweepIndex < 1) continue;
+      if (d < t.sweepIndex + 1 || d > t.sweepIndex + 5) continue;
+      const setup = detectSweepFVGAt(this.candles, t.level, d, this.atr[d - 1], this.opts.setupFvgMinSizePct);
+      if (setup) this.setups.push(setup);
+    }
+  }
+
+  /**
+   * Drop what ended more than ENGINE_KEEP_BARS ago. Swings are kept back to the
+   * oldest live OB, plus the one of each side before it (breaker vs mitigation
+   * block reads it) and the latest few; structure back to the same bar.
+   */
+  private prune(n: number): void {
+    const cut = n - ENGINE_KEEP_BARS;
+    if (cut <= 0) return;
+    const since = this.candles[cut].time;
+    const ended = (f: FairValueGap) => (f.state === 'CLOSED_THROUGH' || f.state === 'EXPIRED') && (f.stateTime ?? f.time) < since;
+
+    this.fvgs = this.fvgs.filter(f => !ended(f));
+    this.ifvgs = this.ifvgs.filter(f => !ended(f));
+    this.vis = this.vis.filter(f => !ended(f));
+    this.voids = this.voids.filter(f => !ended(f));
+    this.obs = this.obs.filter(t => !t.ob.mitigated || (t.ob.mitigationTime ?? t.ob.time) >= since);
+    this.breakers = this.breakers.filter(bb => bb.state !== 'INVALIDATED' || bb.history[bb.history.length - 1].time >= since);
+    this.setups = this.setups.filter(s => s.displacementCandle.time >= since);
+
+    const floor = this.obs.reduce((m, t) => Math.min(m, t.index), cut);
+    if (this.swings.length && this.swings[0].index < floor) {
+      const kept: SwingPoint[] = [];
+      const count = { HIGH: 0, LOW: 0 };
+      const before = { HIGH: false, LOW: false };
+      for (let k = this.swings.length - 1; k >= 0; k--) {
+        const sw = this.swings[k];
+        const inside = sw.index >= floor;
+        if (!inside && before[sw.type] && count[sw.type] >= KEEP_SWINGS_PER_SIDE) continue;
+        if (!inside) before[sw.type] = true;
+        count[sw.type]++;
+        kept.push(sw);
+      }
+      this.swings = kept.reverse();
+    }
+
+    const floorTime = this.candles[floor].time;
+    let k = 0;
+    while (k < this.structure.length - KEEP_STRUCTURE && this.structure[k].time < floorTime) k++;
+    if (k > 0) this.structure = this.structure.slice(k);
+  }
+
+  /**
+   * Rebuild the dealing-range legs from break `index` on, in structure order.
+   * Legs those later breaks had closed (or scanned past) are reopened first.
+   */
+  private relegFrom(index: number, n: number): void {
+    const from = this.legs.findIndex(l => l.breakIdx >= index);
+    if (from !== -1) this.legs = this.legs.slice(0, from);
+    for (const leg of this.legs) {
+      if (leg.end !== undefined && leg.end >= index) leg.end = undefined;
+      if (leg.end === undefined && leg.scanned >= index) { leg.extreme = leg.origin; leg.scanned = leg.origin - 1; }
+    }
+    const time = this.candles[index].time;
+    let k = this.structure.length;
+    while (k > 0 && this.structure[k - 1].time >= time) k--;
+    for (; k < this.structure.length; k++) {
+      const sp = this.structure[k];
+      addDealingLeg(this.legs, this.candles, sp, this.indexOfTime(sp.time, n));
+    }
+  }
+
+  /** Structure points printed on the candle at `time` (always at the tail) */
+  private structureAt(time: number): StructurePoint[] {
+    const points: StructurePoint[] = [];
+    for (let k = this.structure.length - 1; k >= 0 && this.structure[k].time === time; k--) {
+      points.unshift(this.structure[k]);
+    }
+    return points;
+  }
+
+  private indexOfTime(time: number, upTo: number): number {
+    for (let i = upTo; i >= 0; i--) if (this.candles[i].time === time) return i;
+    return -1;
+  }
+}
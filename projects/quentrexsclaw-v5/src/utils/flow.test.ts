@@ -0,0 +1,83 @@
+import type { CandleDelta, LiquidityLevel } from '../types';
+import { candleOpenTime, createFlowTracker, addAggTrade, flowSnapshot, detectAbsorption, assessSweepFlow } from './flow';
+import { bars, M15 } from './testCandles';
+
+const DAY = 86400000;
+
+/** One CandleDelta per candle from its delta, CVD accumulated */
+function deltas(values: number[]): CandleDelta[] {
+  let cvd = 0;
+  return values.map((delta, i) => {
+    cvd += delta;
+    return { time: i * M15, buyVolume: Math.max(0, delta), sellVolume: Math.max(0, -delta), delta, cvd };
+  });
+}
+
+const quiet = [[101, 101.5, 100, 101], [101, 101.5, 100.5, 101], [101, 101.5, 100.5, 101], [101, 101.5, 100.5, 101], [101, 101.5, 100.5, 101]];
+const quietDeltas = [1, 1, -1, 1, -1];
+
+// Swing low at 100 on bar 0, swept on bar 5
+const swingLow: LiquidityLevel = {
+  id: 'liq_low_0', price: 100, time: 0, type: 'LOW', status: 'SWEPT', sweepTime: 5 * M15, strength: 50, timeframe: '15m', members: [],
+};
+
+describe('aggressor flow', () => {
+  it('buckets trades by candle open, weekly from Monday', () => {
+    expect(candleOpenTime(3 * M15 + 5, '15m')).toBe(3 * M15);
+    expect(candleOpenTime(10 * DAY + 5 * 3600000, '1w')).toBe(4 * DAY); // Sunday → previous Monday
+    expect(candleOpenTime(11 * DAY, '1w')).toBe(11 * DAY);
+  });
+
+  it('splits aggressor volume into delta and carries CVD across candles', () => {
+    const t = createFlowTracker('15m');
+    addAggTrade(t, { time: 10, price: 100, qty: 2, buyerIsMaker: false });
+    addAggTrade(t, { time: 20, price: 100, qty: 0.5, buyerIsMaker: true });
+    addAggTrade(t, { time: M15 + 1, price: 100, qty: 1, buyerIsMaker: false });
+    addAggTrade(t, { time: 30, price: 100, qty: 9, buyerIsMaker: true }); // older candle — dropped
+    expect(t.deltas).toEqual([
+      { time: 0, buyVolume: 2, sellVolume: 0.5, delta: 1.5, cvd: 1.5 },
+      { time: M15, buyVolume: 1, sellVolume: 0, delta: 1, cvd: 2.5 },
+    ]);
+  });
+
+  it('clones only the forming candle in a snapshot', () => {
+    const t = createFlowTracker('15m');
+    addAggTrade(t, { time: 0, price: 100, qty: 1, buyerIsMaker: false });
+    addAggTrade(t, { time: M15, price: 100, qty: 1, buyerIsMaker: false });
+    const snap = flowSnapshot(t);
+    expect(snap[0]).toBe(t.deltas[0]);
+    expect(snap[1]).not.toBe(t.deltas[1]);
+    expect(snap[1]).toEqual(t.deltas[1]);
+  });
+
+  it('flags heavy aggression that price refused to follow as absorption', () => {
+    const absorbed = (row: number[], delta: number) => detectAbsorption(bars([...quiet, row]), deltas([...quietDeltas, delta]), 5);
+    expect(absorbed([101, 101.2, 99.5, 100.8], -5)).toBe('BULLISH');  // sold hard, closed high
+    expect(absorbed([101, 102, 100.8, 101.1], 5)).toBe('BEARISH');    // bought hard, closed low
+    expect(absorbed([101, 101.2, 99.5, 99.6], -5)).toBeNull();        // sold and followed
+    expect(absorbed([101, 101.2, 99.5, 100.8], -1)).toBeNull();       // not heavy
+    expect(detectAbsorption(bars(quiet), deltas(quietDeltas), 4)).toBeNull(); // too little history
+  });
+
+  describe('sweep flow', () => {
+    const assess = (rows: number[][], ds: number[]) => assessSweepFlow(bars([...quiet, ...rows]), deltas([...quietDeltas, ...ds]), swingLow);
+
+    it('rejects a sweep into absorbed selling that closes back inside', () => {
+      const flow = assess([[101, 101.2, 99.5, 100.8], [100.8, 101.5, 100.6, 101.2], [101.2, 101.6, 101, 101.4]], [-5, 2, 1]);
+      expect(flow).toMatchObject({ verdict: 'REJECTED', absorption: true, divergence: false, delta: -2, levelId: 'liq_low_0' });
+    });
+
+    it('accepts a sweep that keeps being sold below the level', () => {
+      const flow = assess([[100.5, 100.6, 99, 99.2], [99.2, 99.4, 98.5, 98.6], [98.6, 98.8, 98, 98.2]], [-5, -2, -1]);
+      expect(flow).toMatchObject({ verdict: 'ACCEPTED', absorption: false, delta: -8 });
+    });
+
+    it('stays unclear without a flow signal or without aggressor data', () => {
+      const rows = [[100.5, 100.6, 99, 99.2], [99.2, 99.8, 99, 99.6], [99.6, 100.6, 99.5, 100.5]];
+      expect(assess(rows, [-1, -1, -1]).verdict).toBe('UNCLEAR');
+      expect(assessSweepFlow(bars([...quiet, ...rows]), deltas(quietDeltas), swingLow)).toMatchObject({
+        verdict: 'UNCLEAR', reason: 'No aggressor data for the sweep candle',
+      });
+    });
+  });
+});
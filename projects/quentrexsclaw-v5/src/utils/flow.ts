@@ -0,0 +1,145 @@
+/**
+ * utils/flow.ts
+ * Aggressor flow from the @aggTrade stream — per-candle buy / sell volume,
+ * delta and CVD — plus absorption and delta divergence at swept levels:
+ * a sweep into absorbed selling is a reject, a sweep still being sold is a breakout.
+ */
+
+import type { AggTrade, Candle, CandleDelta, LiquidityLevel, SweepFlow, Timeframe } from '../types';
+import { TIMEFRAME_MINUTES } from './sessions';
+
+const MAX_CANDLES = 1000;
+const DAY_MS = 86400000;
+
+export interface FlowTracker {
+  timeframe: Timeframe;
+  deltas: CandleDelta[];   // oldest first, one per candle open time
+}
+
+export function createFlowTracker(timeframe: Timeframe): FlowTracker {
+  return { timeframe, deltas: [] };
+}
+
+/** Open time of the candle a trade belongs to (weekly candles open Monday 00:00 UTC) */
+export function candleOpenTime(time: number, timeframe: Timeframe): number {
+  if (timeframe === '1w') {
+    const monday = 4 * DAY_MS; // 1970-01-05
+    return Math.floor((time - monday) / (7 * DAY_MS)) * 7 * DAY_MS + monday;
+  }
+  const ms = TIMEFRAME_MINUTES[timeframe] * 60000;
+  return Math.floor(time / ms) * ms;
+}
+
+/** Add one trade. Trades older than the current candle are dropped (the stream is ordered). */
+export function addAggTrade(t: FlowTracker, trade: AggTrade): void {
+  const open = candleOpenTime(trade.time, t.timeframe);
+  let cur = t.deltas[t.deltas.length - 1];
+  if (cur && open < cur.time) return;
+  if (!cur || open > cur.time) {
+    cur = { time: open, buyVolume: 0, sellVolume: 0, delta: 0, cvd: cur?.cvd ?? 0 };
+    t.deltas = [...t.deltas.slice(-(MAX_CANDLES - 1)), cur];
+  }
+  const signed = trade.buyerIsMaker ? -trade.qty : trade.qty;
+  if (signed > 0) cur.buyVolume += signed;
+  else cur.sellVolume -= signed;
+  cur.delta += signed;
+  cur.cvd += signed;
+}
+
+/** Copy for React state — only the forming candle is mutated, so only it is cloned */
+export function flowSnapshot(t: FlowTracker): CandleDelta[] {
+  const last = t.deltas[t.deltas.length - 1];
+  return last ? [...t.deltas.slice(0, -1), { ...last }] : [];
+}
+
+// ─── DETECTORS ────────────────────────────────────────────────────────────────
+
+/**
+ * Heavy aggression (|delta| ≥ 2× the recent average) that price refused to follow:
+ * heavy selling closing in the upper half of the range = sellers absorbed (BULLISH),
+ * heavy buying closing in the lower half = buyers absorbed (BEARISH).
+ */
+export function detectAbsorption(
+  candles: Candle[],
+  deltas: CandleDelta[],
+  i: number,
+  lookback = 20
+): 'BULLISH' | 'BEARISH' | null {
+  return absorptionAt(candles, deltaIndex(deltas), i, lookback);
+}
+
+/** detectAbsorption against a prebuilt time → delta index */
+function absorptionAt(
+  candles: Candle[],
+  byTime: Map<number, CandleDelta>,
+  i: number,
+  lookback = 20
+): 'BULLISH' | 'BEARISH' | null {
+  const c = candles[i];
+  const d = c && byTime.get(c.time);
+  if (!d || c.high <= c.low) return null;
+
+  const prior = candles.slice(Math.max(0, i - lookback), i)
+    .map(p => byTime.get(p.time))
+    .filter((x): x is CandleDelta => !!x);
+  if (prior.length < 5) return null;
+  const avgAbs = prior.reduce((s, x) => s + Math.abs(x.delta), 0) / prior.length;
+  if (avgAbs <= 0 || Math.abs(d.delta) < 2 * avgAbs) return null;
+
+  const closePos = (c.close - c.low) / (c.high - c.low);
+  if (d.delta < 0 && closePos >= 0.5) return 'BULLISH';
+  if (d.delta > 0 && closePos <= 0.5) return 'BEARISH';
+  return null;
+}
+
+/**
+ * Flow from the sweep candle of `level` through `confirmBars` more candles.
+ * Divergence: the sweep made a new price extreme past the swing, but CVD did not
+ * (a LOW swept with a higher CVD than at the swing). REJECTED needs price back
+ * inside the level plus absorption, divergence or delta flipping against the sweep.
+ */
+export function assessSweepFlow(
+  candles: Candle[],
+  deltas: CandleDelta[],
+  level: LiquidityLevel,
+  confirmBars = 2
+): SweepFlow {
+  const low = level.type === 'LOW';
+  const base = { levelId: level.id, levelType: level.type };
+  const byTime = deltaIndex(deltas);
+  const si = level.sweepTime !== undefined ? candles.findIndex(c => c.time === level.sweepTime) : -1;
+  const sweepDelta = si >= 0 ? byTime.get(candles[si].time) : undefined;
+  if (!sweepDelta) {
+    return { ...base, verdict: 'UNCLEAR', absorption: false, divergence: false, delta: 0, reason: 'No aggressor data for the sweep candle' };
+  }
+
+  const end = Math.min(si + confirmBars, candles.length - 1);
+  let delta = 0, after = 0, absorption = false;
+  for (let i = si; i <= end; i++) {
+    const d = byTime.get(candles[i].time);
+    if (!d) continue;
+    delta += d.delta;
+    if (i > si) after += d.delta;
+    if (absorptionAt(candles, byTime, i) === (low ? 'BULLISH' : 'BEARISH')) absorption = true;
+  }
+
+  const swingDelta = byTime.get(level.time);
+  const divergence = !!swingDelta && (low ? sweepDelta.cvd > swingDelta.cvd : sweepDelta.cvd < swingDelta.cvd);
+  const backInside = low ? candles[end].close > level.price : candles[end].close < level.price;
+  const flipped = low ? after > 0 : after < 0;
+  const pushing = low ? delta < 0 : delta > 0;
+  const side = low ? 'sold' : 'bought';
+
+  if (backInside && (absorption || divergence || flipped)) {
+    const why = [absorption && 'absorption', divergence && 'CVD divergence', flipped && 'delta flipped'].filter(Boolean).join(', ');
+    return { ...base, verdict: 'REJECTED', absorption, divergence, delta, reason: `Sweep rejected — ${why}` };
+  }
+  if (!backInside && pushing) {
+    return { ...base, verdict: 'ACCEPTED', absorption, divergence, delta, reason: `Still being ${side} through the level — breakout, not a sweep` };
+  }
+  return { ...base, verdict: 'UNCLEAR', absorption, divergence, delta, reason: 'Flow undecided at the sweep' };
+}
+
+function deltaIndex(deltas: CandleDelta[]): Map<number, CandleDelta> {
+  return new Map(deltas.map(d => [d.time, d]));
+}
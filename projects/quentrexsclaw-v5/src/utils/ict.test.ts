@@ -0,0 +1,369 @@
+import type { Candle, OrderBlock, StructurePoint, SwingPoint } from '../types';
+import {
+  detectMarketStructure, isDisplacementCandle, detectBreakerBlocks, BREAKER_CONFIRM_BARS,
+  detectFVGs, detectInverseFVGs, invertFVG, isFVGActive, FVG_MAX_AGE,
+  detectVolumeImbalances, detectLiquidityVoids, calcOTE, inOTE, takeProfits,
+  detectSwings, updateProvisionalSwings, calcDealingRanges, currentDealingRange, pdArrayFromRange,
+  findOrderBlock, updateOBMitigation,
+} from './ict';
+import { bars } from './testCandles';
+
+const swing = (candles: Candle[], index: number, type: 'HIGH' | 'LOW'): SwingPoint => ({
+  index, time: candles[index].time, price: type === 'HIGH' ? candles[index].high : candles[index].low, type, status: 'CONFIRMED',
+});
+
+// ─── LIVE SWINGS ──────────────────────────────────────────────────────────────
+
+describe('non-repainting swings', () => {
+  const highs = [100, 101, 102, 103, 102.5, 102, 101.5, 101, 100.5, 100, 99.5, 104];
+  const series = (hs: number[]) => bars(hs.map(h => [h - 0.5, h, h - 1, h - 0.4]));
+
+  /** Replay bar by bar: live swings after the last bar, plus everything confirmed / cancelled */
+  const replay = (candles: Candle[]) => {
+    const live: SwingPoint[] = [];
+    const confirmed: SwingPoint[] = [];
+    const cancelled: SwingPoint[] = [];
+    for (let n = 0; n < candles.length; n++) {
+      const r = updateProvisionalSwings(candles, n, 3, 3, live);
+      confirmed.push(...r.confirmed);
+      cancelled.push(...r.cancelled);
+    }
+    return { live, confirmed, cancelled };
+  };
+
+  it('reports a high provisionally on its own bar', () => {
+    const { live } = replay(series(highs.slice(0, 4)));
+    expect(live.filter(s => s.type === 'HIGH')).toEqual([expect.objectContaining({ index: 3, price: 103, status: 'PROVISIONAL' })]);
+  });
+
+  it('confirms it rightLen bars later — the swing detectSwings finds', () => {
+    const candles = series(highs.slice(0, 7));
+    const { confirmed, live } = replay(candles);
+    expect(confirmed.filter(s => s.type === 'HIGH').map(s => [s.index, s.status])).toEqual([[3, 'CONFIRMED']]);
+    expect(live.some(s => s.index === 3)).toBe(false);
+    expect(detectSwings(candles, 3, 3).filter(s => s.type === 'HIGH').map(s => s.index)).toEqual([3]);
+  });
+
+  it('cancels a provisional high that a later bar trades through', () => {
+    expect(replay(series(highs)).live.find(s => s.index === 11)?.status).toBe('PROVISIONAL');
+    const { cancelled, live } = replay(series([...highs, 104.5]));
+    expect(cancelled.map(s => [s.index, s.status])).toContainEqual([11, 'CANCELLED']);
+    expect(live.find(s => s.type === 'HIGH')?.index).toBe(12);
+  });
+});
+
+// ─── MARKET STRUCTURE ─────────────────────────────────────────────────────────
+
+describe('market structure shift', () => {
+  // Downtrend (LH 110 → LL 100 → LH 106 → LL 98), a quiet base, then a break of 110
+  const downtrend = [
+    [104, 105, 103, 104.2], [104.2, 110, 104, 105], [105, 105.5, 102, 102.5], [102.5, 103, 100, 101],
+    [101, 104, 100.5, 103.5], [103.5, 106, 103, 104], [104, 104.5, 99.5, 100], [100, 100.5, 98, 99],
+    ...Array.from({ length: 10 }, () => [99.5, 100.5, 99, 100]),
+    [100, 103, 99.8, 102.8],
+  ];
+  const structureOf = (breakBar: number[]) => {
+    const candles = bars([...downtrend, breakBar]);
+    const swings = [swing(candles, 1, 'HIGH'), swing(candles, 3, 'LOW'), swing(candles, 5, 'HIGH'), swing(candles, 7, 'LOW')];
+    return { candles, points: detectMarketStructure(candles, swings) };
+  };
+
+  it('upgrades a CHoCH to an MSS on a displacement close that leaves an FVG', () => {
+    const { candles, points } = structureOf([102.8, 111.5, 102.9, 111.2]);
+    expect(points.map(p => p.type)).toEqual(['BOS_BEAR', 'BOS_BEAR', 'MSS_BULL']);
+    expect(points[2].displacementCandle).toBe(candles[19]);
+    expect(points[2].confirmed).toBe(true);
+  });
+
+  it('leaves a wick through the level as a CHoCH', () => {
+    const { points } = structureOf([102.8, 110.5, 102.9, 103]);
+    expect(points[2].type).toBe('CHoCH_BULL');
+    expect(points[2].displacementCandle).toBeUndefined();
+  });
+
+  it('needs a decisive body for displacement', () => {
+    const candles = bars([...downtrend, [102.8, 111.5, 102.9, 111.2], [111, 115, 107, 111.5]]);
+    expect(isDisplacementCandle(candles, 19, true)).toBe(true);
+    expect(isDisplacementCandle(candles, 19, false)).toBe(false);
+    expect(isDisplacementCandle(candles, 20, true)).toBe(false); // body 0.5 of an 8-point range
+  });
+});
+
+// ─── ORDER BLOCKS ─────────────────────────────────────────────────────────────
+
+describe('order blocks', () => {
+  // Two down candles, then the rally that breaks 105 on candle 4
+  const candles = bars([
+    [103, 103.5, 102.5, 103], [103, 103.2, 101.8, 102], [102, 102.3, 100.5, 101],
+    [101, 103, 100.8, 102.8], [102.8, 106, 102.7, 105.8],
+  ]);
+  const bos: StructurePoint = { time: candles[4].time, price: 105, type: 'BOS_BULL', confirmed: true, candle: candles[4], brokenSwing: swing(candles, 0, 'HIGH') };
+  const block = (definition: OrderBlock['definition']) => findOrderBlock(candles, 4, bos, 100, '15m', definition)!;
+
+  it('merges the run of opposing candles before the break', () => {
+    expect(block('WICK')).toMatchObject({
+      type: 'BULLISH', candleCount: 2, startTime: candles[1].time, time: candles[2].time, volume: 200, mitigationState: 'UNTOUCHED',
+    });
+  });
+
+  it('sizes the block by its definition', () => {
+    expect(block('WICK')).toMatchObject({ bottom: 100.5, top: 103, meanThreshold: 101.75 }); // open → far wick
+    expect(block('BODY')).toMatchObject({ bottom: 101, top: 103 });
+    expect(block('FULL')).toMatchObject({ bottom: 100.5, top: 103.2 });
+  });
+
+  it('steps through touch, mean threshold, mitigation and violation', () => {
+    const ob = block('WICK');
+    const step = (low: number, close: number) => updateOBMitigation(ob, { time: 0, open: close, high: close + 0.2, low, close, volume: 1 });
+
+    expect(step(102.5, 103.5)).toBe(false);
+    expect(ob.mitigationState).toBe('TOUCHED');
+    step(101.5, 102.5);
+    expect(ob).toMatchObject({ mitigationState: 'MEAN_THRESHOLD', mitigated: false });
+    step(100.4, 101);
+    expect(ob).toMatchObject({ mitigationState: 'MEAN_THRESHOLD', mitigated: true });
+    expect(step(99.5, 100)).toBe(true);
+    expect(ob.mitigationState).toBe('VIOLATED');
+  });
+});
+
+// ─── BREAKER BLOCKS ───────────────────────────────────────────────────────────
+
+describe('breaker block lifecycle', () => {
+  // Swing high 103, bullish OB 100–101, rally to 104, close back through the OB, bearish structure
+  const base = [
+    [102, 103, 101.5, 102.5], [102.5, 102.6, 100.8, 101], [101, 101, 100, 100.2],
+    [100.2, 104, 100.1, 103.8], [103.8, 103.9, 99, 99.5], [99.5, 99.8, 97, 97.5],
+  ];
+  const ob: OrderBlock = {
+    id: 'ob_1', type: 'BULLISH', top: 101, bottom: 100, meanThreshold: 100.5, time: 2 * 900000, startTime: 2 * 900000,
+    candleCount: 1, definition: 'WICK', mitigated: false, mitigationState: 'UNTOUCHED', volume: 100, strength: 50, timeframe: '15m',
+  };
+  const run = (rows: number[][], priorHigh = 103) => {
+    const candles = bars([...base, ...rows]);
+    const bos: StructurePoint = { time: candles[5].time, price: 98, type: 'BOS_BEAR', confirmed: true, candle: candles[5], brokenSwing: swing(candles, 1, 'LOW') };
+    const swings = [{ ...swing(candles, 0, 'HIGH'), price: priorHigh }];
+    return detectBreakerBlocks([ob], candles, [bos], swings)[0];
+  };
+
+  it('confirms on structure and retests only on a rejection close', () => {
+    const bb = run([[97.5, 100.5, 97.4, 100.3], [100.3, 100.4, 98.5, 98.8]]);
+    expect(bb).toMatchObject({ kind: 'BREAKER', type: 'BEARISH', breakIndex: 4, mitigated: true });
+    expect(bb.history.map(h => h.state)).toEqual(['CANDIDATE', 'CONFIRMED', 'RETESTED']);
+    expect(bb.history[2].time).toBe(7 * 900000);
+  });
+
+  it('stays confirmed while price holds inside the zone', () => {
+    const bb = run([[97.5, 100.5, 97.4, 100.3], [100.3, 100.8, 100.1, 100.6]]);
+    expect(bb.state).toBe('CONFIRMED');
+    expect(bb.mitigated).toBe(true);
+  });
+
+  it('is invalidated by a close back above the far side', () => {
+    const bb = run([[97.5, 100.5, 97.4, 100.3], [100.3, 101.6, 100, 101.4]]);
+    expect(bb.state).toBe('INVALIDATED');
+  });
+
+  it('is a mitigation block when the OB never made a new high', () => {
+    expect(run([], 105).kind).toBe('MITIGATION');
+  });
+
+  it('drops a candidate that never prints structure', () => {
+    const candles = bars([...base, ...Array.from({ length: BREAKER_CONFIRM_BARS }, () => [97.5, 98, 97, 97.5])]);
+    const bb = detectBreakerBlocks([ob], candles, [], [swing(candles, 0, 'HIGH')])[0];
+    expect(bb.history.map(h => h.state)).toEqual(['CANDIDATE', 'INVALIDATED']);
+  });
+});
+
+// ─── FVG LIFECYCLE ────────────────────────────────────────────────────────────
+
+describe('FVG lifecycle', () => {
+  // Bullish FVG 101–102 (CE 101.5) on candle 1, then one retrace step per row
+  const gap = [[100, 101, 99.5, 100.8], [100.8, 103, 100.7, 102.8], [102.8, 104, 102, 103.5]];
+  const steps = [
+    [103.5, 103.6, 101.8, 102.5], // 20% in → TOUCHED
+    [102.5, 102.8, 101.4, 101.7], // wick past CE, close holds it → CE_RESPECTED
+    [101.7, 102.6, 101.9, 102.3], // shallower — keeps the deepest fill
+    [102.3, 102.4, 101.2, 101.3], // close below CE → TOUCHED, CE lost for good
+    [101.3, 101.6, 100.9, 101.1], // wick to the far edge → filled
+    [101.1, 101.2, 100.5, 100.8], // close below the far edge → CLOSED_THROUGH
+  ];
+  const after = (k: number) => detectFVGs(bars([...gap, ...steps.slice(0, k)]), '15m')[0];
+
+  it('steps through touch, CE, CE lost, fill and close-through', () => {
+    expect(after(0)).toMatchObject({ state: 'FRESH', fillPercent: 0 });
+    expect(after(1)).toMatchObject({ state: 'TOUCHED', ceBroken: false });
+    expect(after(1).fillPercent).toBeCloseTo(20);
+    expect(after(2)).toMatchObject({ state: 'CE_RESPECTED', ceBroken: false });
+    expect(after(3).state).toBe('CE_RESPECTED');
+    expect(after(3).fillPercent).toBeCloseTo(60);
+    expect(after(4)).toMatchObject({ state: 'TOUCHED', ceBroken: true });
+    expect(after(5)).toMatchObject({ state: 'TOUCHED', filled: true, fillPercent: 100 });
+    expect(isFVGActive(after(5))).toBe(false);
+    expect(after(6)).toMatchObject({ state: 'CLOSED_THROUGH', stateTime: 8 * 900000 });
+  });
+
+  it('expires after FVG_MAX_AGE bars without a close through', () => {
+    const away = Array.from({ length: FVG_MAX_AGE }, () => [104, 104.5, 103.5, 104]);
+    const fvg = detectFVGs(bars([...gap, ...away]), '15m')[0];
+    expect(fvg).toMatchObject({ state: 'EXPIRED', ageBars: FVG_MAX_AGE });
+    expect(isFVGActive(fvg)).toBe(false);
+  });
+});
+
+// ─── INVERSE FVG ──────────────────────────────────────────────────────────────
+
+describe('inverse FVG', () => {
+  // Bullish FVG 101–102 on candle 1, closed through by candle 3
+  const rows = [[100, 101, 99.5, 100.8], [100.8, 103, 100.7, 102.8], [102.8, 104, 102, 103.5], [103.5, 103.6, 100.5, 100.6]];
+
+  it('flips a closed-through FVG and runs its own lifecycle', () => {
+    const candles = bars([...rows, [100.6, 101.6, 100.4, 100.9]]);
+    const fvgs = detectFVGs(candles, '15m');
+    expect(fvgs[0]).toMatchObject({ type: 'BULLISH', top: 102, bottom: 101, state: 'CLOSED_THROUGH', stateTime: candles[3].time });
+
+    const [ifvg] = detectInverseFVGs(candles, fvgs);
+    expect(ifvg).toMatchObject({ type: 'BEARISH', originalType: 'BULLISH', sourceId: fvgs[0].id, time: candles[3].time, top: 102, bottom: 101 });
+    expect(ifvg.state).toBe('CE_RESPECTED'); // wicked to 101.6, closed back below the 101.5 CE
+  });
+
+  it('dies when price closes back through the flipped zone', () => {
+    const candles = bars([...rows, [100.6, 102.8, 100.4, 102.5]]);
+    const [ifvg] = detectInverseFVGs(candles, detectFVGs(candles, '15m'));
+    expect(ifvg.state).toBe('CLOSED_THROUGH');
+  });
+
+  it('needs a close through, not a wick', () => {
+    const [fvg] = detectFVGs(bars(rows.slice(0, 3)), '15m');
+    expect(invertFVG(fvg, { time: 0, open: 102, high: 102.2, low: 100.5, close: 101.2, volume: 1 })).toBeNull();
+  });
+});
+
+// ─── VOLUME IMBALANCE / LIQUIDITY VOID ────────────────────────────────────────
+
+describe('volume imbalances and liquidity voids', () => {
+  it('finds a body gap whose wicks still overlap', () => {
+    const vis = detectVolumeImbalances(bars([[100, 101.3, 99.9, 101], [101.2, 102.2, 101.1, 102]]), '15m');
+    expect(vis).toHaveLength(1);
+    expect(vis[0]).toMatchObject({ kind: 'VOLUME_IMBALANCE', type: 'BULLISH', top: 101.2, bottom: 101, state: 'FRESH' });
+  });
+
+  it('ignores a body gap that is a full wick gap', () => {
+    expect(detectVolumeImbalances(bars([[100, 101, 99.9, 101], [101.2, 102.2, 101.1, 102]]), '15m')).toEqual([]);
+  });
+
+  it('spans a run of thinly overlapping displacement candles', () => {
+    const quiet = Array.from({ length: 10 }, () => [100, 100.3, 99.8, 100.1]);
+    const run = [[100.1, 102.1, 100, 102], [102, 104.1, 101.95, 104], [104, 106.1, 103.95, 106]];
+    const candles = bars([...quiet, ...run, [106, 106.2, 105.8, 105.9]]);
+    const voids = detectLiquidityVoids(candles, '15m');
+    expect(voids).toHaveLength(1);
+    expect(voids[0]).toMatchObject({
+      kind: 'LIQUIDITY_VOID', type: 'BULLISH', bottom: 100.1, top: 106, candleCount: 3,
+      startTime: candles[10].time, time: candles[12].time,
+    });
+  });
+
+  it('needs minCandles in the run', () => {
+    const quiet = Array.from({ length: 10 }, () => [100, 100.3, 99.8, 100.1]);
+    const candles = bars([...quiet, [100.1, 102.1, 100, 102], [102, 104.1, 101.95, 104], [104, 104.2, 103.8, 103.9]]);
+    expect(detectLiquidityVoids(candles, '15m')).toEqual([]);
+  });
+});
+
+// ─── OTE ──────────────────────────────────────────────────────────────────────
+
+describe('optimal trade entry', () => {
+  // Swing high 105 (1), leg low 100 (2), BOS through 105 (4), extreme 110 (5)
+  const candles = bars([
+    [104, 104.5, 103, 104], [104, 105, 103.5, 104.5], [104.5, 104.6, 100, 100.5],
+    [100.5, 103, 100.2, 102.8], [102.8, 106, 102.7, 105.8], [105.8, 110, 105.5, 109.5],
+  ]);
+  const bos = (type: StructurePoint['type']): StructurePoint => ({
+    time: candles[4].time, price: 105, type, confirmed: true, candle: candles[4], brokenSwing: swing(candles, 1, 'HIGH'),
+  });
+
+  it('measures retracements and extensions of the BOS leg', () => {
+    const ote = calcOTE(candles, [bos('BOS_BULL')])!;
+    expect(ote).toMatchObject({ type: 'BULLISH', legLow: 100, legHigh: 110, legStartTime: candles[2].time, legEndTime: candles[5].time });
+    expect(ote.ote62).toBeCloseTo(103.8);
+    expect(ote.ote705).toBeCloseTo(102.95);
+    expect(ote.ote79).toBeCloseTo(102.1);
+    expect(ote.target27).toBeCloseTo(112.7);
+    expect(ote.target62).toBeCloseTo(116.2);
+    expect(inOTE(ote, 103)).toBe(true);
+    expect(inOTE(ote, 104)).toBe(false);
+  });
+
+  it('ignores a bare CHoCH', () => {
+    expect(calcOTE(candles, [bos('CHoCH_BULL')])).toBeNull();
+  });
+
+  describe('take profits', () => {
+    const ote = calcOTE(candles, [bos('BOS_BULL')]);
+
+    it('uses both extensions ahead of the entry', () => {
+      const [tp1, tp2] = takeProfits(ote, 'LONG', 103.8, 1);
+      expect(tp1).toBeCloseTo(112.7);
+      expect(tp2).toBeCloseTo(116.2);
+    });
+
+    it('measures a missing TP2 from TP1', () => {
+      const [tp1, tp2] = takeProfits(ote, 'LONG', 113, 1);
+      expect(tp1).toBeCloseTo(116.2);
+      expect(tp2).toBeCloseTo(118.7);
+    });
+
+    it('falls back to ATR multiples, TP2 beyond TP1 either way', () => {
+      expect(takeProfits(null, 'LONG', 100, 2)).toEqual([105, 110]);
+      expect(takeProfits(ote, 'SHORT', 100, 2)).toEqual([95, 90]); // bullish OTE is no use to a short
+    });
+  });
+});
+
+// ─── DEALING RANGE ────────────────────────────────────────────────────────────
+
+describe('dealing ranges', () => {
+  const candles = bars([
+    [104, 104.5, 103, 104], [104, 105, 103.5, 104.5], [104.5, 104.6, 100, 100.5], [100.5, 103, 100.2, 102.8],
+    [102.8, 106, 102.7, 105.8], [105.8, 110, 105.5, 109.5], [109.5, 109.8, 107, 107.5], [107.5, 108, 106, 106.5],
+    [106.5, 111, 106.4, 110.8], [110.8, 112, 110, 111.5], [111.5, 111.6, 108, 108.5], [108.5, 108.7, 105, 105.5],
+  ]);
+  const brk = (at: number, type: StructurePoint['type'], swingIdx: number, side: 'HIGH' | 'LOW'): StructurePoint => ({
+    time: candles[at].time, price: side === 'HIGH' ? candles[swingIdx].high : candles[swingIdx].low, type, confirmed: true,
+    candle: candles[at], brokenSwing: swing(candles, swingIdx, side),
+  });
+  const bullLegs = [brk(4, 'BOS_BULL', 1, 'HIGH'), brk(8, 'BOS_BULL', 5, 'HIGH')];
+
+  it('nests a break with the trend as an internal range inside the external one', () => {
+    const ranges = calcDealingRanges(candles.slice(0, 10), bullLegs);
+    expect(ranges.map(r => [r.kind, r.direction, r.low, r.high])).toEqual([
+      ['EXTERNAL', 'BULLISH', 100, 112],
+      ['INTERNAL', 'BULLISH', 105.5, 112], // leg origin: lowest low from the broken swing's bar on
+    ]);
+    expect(ranges[1].parentId).toBe(ranges[0].id);
+    expect(ranges[0].equilibrium).toBe(106);
+
+    const { external, internal } = currentDealingRange(ranges);
+    expect(external).toBe(ranges[0]);
+    expect(internal).toBe(ranges[1]);
+  });
+
+  it('closes both on a break against the external range and opens a new one', () => {
+    const ranges = calcDealingRanges(candles, [...bullLegs, brk(11, 'BOS_BEAR', 7, 'LOW')]);
+    expect(ranges.slice(0, 2).map(r => r.endTime)).toEqual([candles[11].time, candles[11].time]);
+    const { external, internal } = currentDealingRange(ranges);
+    expect(external).toMatchObject({ kind: 'EXTERNAL', direction: 'BEARISH', high: 112, low: 105, highTime: candles[9].time });
+    expect(internal).toBeNull();
+  });
+
+  it('needs a BOS / MSS — a CHoCH opens no range', () => {
+    expect(calcDealingRanges(candles, [brk(4, 'CHoCH_BULL', 1, 'HIGH')])).toEqual([]);
+  });
+
+  it('reads premium / discount off the range', () => {
+    const [range] = calcDealingRanges(candles.slice(0, 10), bullLegs);
+    expect(pdArrayFromRange(range, 110)).toMatchObject({ high: 112, low: 100, type: 'BEARISH', provisional: false });
+    expect(pdArrayFromRange(range, 102).type).toBe('BULLISH');
+  });
+});
@@ -6,7 +6,9 @@
 
 import type {
   Candle, SwingPoint, StructurePoint, OrderBlock, FairValueGap,
-  PDArray, SwingType, Timeframe
+  PDArray, SwingType, Timeframe, BreakerBlock, BreakerState, InverseFVG,
+  VolumeImbalance, LiquidityVoid, OTEZone, DealingRange, OBDefinition, OBMitigationState,
+  BalancedPriceRange
 } from '../types';
 
 // ─── SWING DETECTION (equivalent to ta.pivothigh / ta.pivotlow) ───────────────
@@ -24,33 +26,83 @@ export function detectSwings(
 
   for (let i = leftLen; i < candles.length - rightLen; i++) {
     const c = candles[i];
+    if (isPivot(candles, i, leftLen, rightLen, 'HIGH')) swings.push({ index: i, time: c.time, price: c.high, type: 'HIGH', status: 'CONFIRMED' });
+    if (isPivot(candles, i, leftLen, rightLen, 'LOW'))  swings.push({ index: i, time: c.time, price: c.low,  type: 'LOW',  status: 'CONFIRMED' });
+  }
 
-    // Pivot High: highest high in [i-left..i+right]
-    let isHigh = true;
-    for (let j = i - leftLen; j <= i + rightLen; j++) {
-      if (j !== i && candles[j].high >= c.high) { isHigh = false; break; }
-    }
-    if (isHigh) swings.push({ index: i, time: c.time, price: c.high, type: 'HIGH' });
+  return swings.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Pivot test for a single candle: highest high (or lowest low) in [i-left..i+right].
+ * Caller guarantees the window is inside the array.
+ */
+export function isPivot(
+  candles: Candle[],
+  i: number,
+  leftLen: number,
+  rightLen: number,
+  type: SwingType
+): boolean {
+  const c = candles[i];
+  for (let j = i - leftLen; j <= i + rightLen; j++) {
+    if (j === i) continue;
+    if (type === 'HIGH' && candles[j].high >= c.high) return false;
+    if (type === 'LOW'  && candles[j].low  <= c.low)  return false;
+  }
+  return true;
+}
+
+/**
+ * Causal (non-repainting) swing tracking — call once per new candle n.
+ * A bar that tops (bottoms) its left window becomes a PROVISIONAL swing at once.
+ * It is CANCELLED as soon as a later bar trades at or beyond it, and CONFIRMED
+ * once `rightLen` bars have passed without that — the same swings
+ * detectSwings finds, only visible `rightLen` bars sooner.
+ * `live` holds the provisional swings and is updated in place.
+ */
+export function updateProvisionalSwings(
+  candles: Candle[],
+  n: number,
+  leftLen: number,
+  rightLen: number,
+  live: SwingPoint[]
+): { confirmed: SwingPoint[]; cancelled: SwingPoint[] } {
+  const c = candles[n];
+  const confirmed: SwingPoint[] = [];
+  const cancelled: SwingPoint[] = [];
 
-    // Pivot Low: lowest low in [i-left..i+right]
-    let isLow = true;
-    for (let j = i - leftLen; j <= i + rightLen; j++) {
-      if (j !== i && candles[j].low <= c.low) { isLow = false; break; }
+  for (let k = live.length - 1; k >= 0; k--) {
+    const sw = live[k];
+    const through = sw.type === 'HIGH' ? c.high >= sw.price : c.low <= sw.price;
+    if (through) { sw.status = 'CANCELLED'; cancelled.unshift(sw); live.splice(k, 1); }
+    else if (n - sw.index >= rightLen) { sw.status = 'CONFIRMED'; confirmed.unshift(sw); live.splice(k, 1); }
+  }
+
+  if (n >= leftLen) {
+    for (const type of ['HIGH', 'LOW'] as const) {
+      if (!isPivot(candles, n, leftLen, 0, type)) continue;
+      const sw: SwingPoint = { index: n, time: c.time, price: type === 'HIGH' ? c.high : c.low, type, status: 'PROVISIONAL' };
+      if (rightLen === 0) { sw.status = 'CONFIRMED'; confirmed.push(sw); }
+      else live.push(sw);
     }
-    if (isLow) swings.push({ index: i, time: c.time, price: c.low, type: 'LOW' });
   }
 
-  return swings.sort((a, b) => a.index - b.index);
+  return { confirmed, cancelled };
 }
 
 // ─── MARKET STRUCTURE (BOS / CHoCH / MSS) ────────────────────────────────────
 
+/** Bars after a CHoCH in which displacement may still upgrade it to an MSS */
+export const MSS_WINDOW = 3;
+
 /**
  * Detects Break of Structure, Change of Character, Market Structure Shift.
  *
  * BOS:  Price breaks a swing in the SAME direction as current trend (continuation)
  * CHoCH: Price breaks a swing in the OPPOSITE direction (first warning of reversal)
- * MSS:  CHoCH confirmed by close beyond the level (stronger reversal signal)
+ * MSS:  CHoCH confirmed by a displacement candle closing beyond the level,
+ *       with an FVG left in the move (stronger reversal signal)
  */
 export function detectMarketStructure(
   candles: Candle[],
@@ -71,13 +123,16 @@ export function detectMarketStructure(
     if (lastHigh) {
       if (candle.high > lastHigh.price) {
         const isBOS = trend === 'UP';
-        points.push({
+        const sp: StructurePoint = {
           time: candle.time,
           price: lastHigh.price,
           type: isBOS ? 'BOS_BULL' : 'CHoCH_BULL',
           confirmed: candle.close > lastHigh.price,
           candle,
-        });
+          brokenSwing: lastHigh,
+        };
+        if (!isBOS) applyMSS(sp, detectMSS(candles, sp, i, candles.length - 1));
+        points.push(sp);
         if (!isBOS) trend = 'UP'; // CHoCH flips trend
         lastHigh = swings.filter(s => s.type === 'HIGH' && s.index <= i)
           .sort((a, b) => b.index - a.index)[0];
@@ -88,13 +143,16 @@ export function detectMarketStructure(
     if (lastLow) {
       if (candle.low < lastLow.price) {
         const isBOS = trend === 'DOWN';
-        points.push({
+        const sp: StructurePoint = {
           time: candle.time,
           price: lastLow.price,
           type: isBOS ? 'BOS_BEAR' : 'CHoCH_BEAR',
           confirmed: candle.close < lastLow.price,
           candle,
-        });
+          brokenSwing: lastLow,
+        };
+        if (!isBOS) applyMSS(sp, detectMSS(candles, sp, i, candles.length - 1));
+        points.push(sp);
         if (!isBOS) trend = 'DOWN';
         lastLow = swings.filter(s => s.type === 'LOW' && s.index <= i)
           .sort((a, b) => b.index - a.index)[0];
@@ -105,21 +163,99 @@ export function detectMarketStructure(
   return points;
 }
 
+/**
+ * Displacement = decisive candle in the given direction: body ≥ 60% of its
+ * range and ≥ 1.5× the average body of the preceding 10 candles.
+ */
+export function isDisplacementCandle(candles: Candle[], i: number, bullish: boolean): boolean {
+  const c = candles[i];
+  const body = bullish ? c.close - c.open : c.open - c.close;
+  const range = c.high - c.low;
+  if (body <= 0 || range <= 0 || body / range < 0.6) return false;
+
+  const prior = candles.slice(Math.max(0, i - 10), i);
+  if (!prior.length) return false;
+  const avgBody = prior.reduce((s, p) => s + Math.abs(p.close - p.open), 0) / prior.length;
+  return body >= avgBody * 1.5;
+}
+
+/**
+ * Checks whether a CHoCH (broken at candles[breakIdx]) qualifies as an MSS,
+ * looking only at candles up to `upTo` so it can be evaluated bar by bar.
+ *
+ * 1. A displacement candle in [breakIdx..breakIdx+MSS_WINDOW] closes beyond the level
+ * 2. An FVG in the same direction formed in the leg, up to that candle
+ *
+ * Returns the displacement candle, or null if not (yet) an MSS.
+ */
+export function detectMSS(
+  candles: Candle[],
+  sp: StructurePoint,
+  breakIdx: number,
+  upTo: number
+): Candle | null {
+  const bullish = sp.type.includes('BULL');
+
+  const legStart = legOrigin(candles, sp, breakIdx);
+
+  const lastD = Math.min(breakIdx + MSS_WINDOW, upTo);
+  for (let d = breakIdx; d <= lastD; d++) {
+    const c = candles[d];
+    const closedBeyond = bullish ? c.close > sp.price : c.close < sp.price;
+    if (!closedBeyond || !isDisplacementCandle(candles, d, bullish)) continue;
+
+    // FVG middle candle j needs j+1 to exist
+    for (let j = Math.max(1, legStart + 1); j <= Math.min(d, upTo - 1); j++) {
+      const gap = bullish
+        ? candles[j + 1].low > candles[j - 1].high
+        : candles[j + 1].high < candles[j - 1].low;
+      if (gap) return c;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Index of the candle the breaking leg started from: the lowest low (bullish
+ * break) or highest high (bearish break) between the broken swing and the break.
+ */
+export function legOrigin(candles: Candle[], sp: StructurePoint, breakIdx: number): number {
+  const bullish = sp.type.includes('BULL');
+  let origin = sp.brokenSwing.index;
+  for (let j = sp.brokenSwing.index; j <= breakIdx; j++) {
+    if (bullish ? candles[j].low < candles[origin].low : candles[j].high > candles[origin].high) origin = j;
+  }
+  return origin;
+}
+
+/** Upgrade a CHoCH point in place once its displacement is known. */
+export function applyMSS(sp: StructurePoint, displacement: Candle | null): void {
+  if (!displacement) return;
+  sp.type = sp.type.includes('BULL') ? 'MSS_BULL' : 'MSS_BEAR';
+  sp.confirmed = true;
+  sp.displacementCandle = displacement;
+}
+
 // ─── ORDER BLOCK DETECTION ────────────────────────────────────────────────────
 
 /**
  * Bullish OB: Last bearish candle before a bullish BOS / impulse move up.
  * Bearish OB: Last bullish candle before a bearish BOS / impulse move down.
  *
+ * `definition` picks the candle range (see OBDefinition); runs of opposing
+ * candles consolidate into one block with a 50% mean threshold.
+ *
  * Strength increases with:
- * - High volume on OB candle
+ * - High volume inside the block
  * - Strong move away from OB (gap, impulse)
- * - OB on higher timeframe
+ * - An MSS / BOS rather than a bare CHoCH
  */
 export function detectOrderBlocks(
   candles: Candle[],
   structurePoints: StructurePoint[],
-  timeframe: Timeframe
+  timeframe: Timeframe,
+  definition: OBDefinition = 'WICK'
 ): OrderBlock[] {
   const blocks: OrderBlock[] = [];
   const avgVol = candles.reduce((s, c) => s + c.volume, 0) / candles.length;
@@ -127,70 +263,122 @@ export function detectOrderBlocks(
   for (const sp of structurePoints) {
     const spIdx = candles.findIndex(c => c.time >= sp.time);
     if (spIdx < 3) continue;
-
-    if (sp.type === 'BOS_BULL' || sp.type === 'CHoCH_BULL') {
-      // Find last bearish candle before structure break
-      for (let j = spIdx - 1; j >= Math.max(0, spIdx - 20); j--) {
-        const c = candles[j];
-        if (c.close < c.open) { // bearish candle
-          const volStrength = Math.min(100, (c.volume / avgVol) * 50);
-          const moveStrength = Math.min(50, ((sp.price - c.high) / c.high) * 1000);
-          blocks.push({
-            id: `ob_bull_${c.time}`,
-            type: 'BULLISH',
-            top: c.open,      // OB range = from open to low of bearish candle
-            bottom: c.low,
-            time: c.time,
-            mitigated: false,
-            volume: c.volume,
-            strength: Math.round(volStrength + moveStrength),
-            timeframe,
-          });
-          break;
-        }
-      }
-    }
-
-    if (sp.type === 'BOS_BEAR' || sp.type === 'CHoCH_BEAR') {
-      for (let j = spIdx - 1; j >= Math.max(0, spIdx - 20); j--) {
-        const c = candles[j];
-        if (c.close > c.open) { // bullish candle
-          const volStrength = Math.min(100, (c.volume / avgVol) * 50);
-          const moveStrength = Math.min(50, ((c.low - sp.price) / c.low) * 1000);
-          blocks.push({
-            id: `ob_bear_${c.time}`,
-            type: 'BEARISH',
-            top: c.high,
-            bottom: c.open,   // OB range = from open to high of bullish candle
-            time: c.time,
-            mitigated: false,
-            volume: c.volume,
-            strength: Math.round(volStrength + moveStrength),
-            timeframe,
-          });
-          break;
-        }
-      }
-    }
+    const ob = findOrderBlock(candles, spIdx, sp, avgVol, timeframe, definition);
+    if (ob) blocks.push(ob);
   }
 
-  // Check mitigation: price has traded through the OB
+  // Track mitigation until price closes through the OB
   for (const ob of blocks) {
     const obIdx = candles.findIndex(c => c.time >= ob.time);
     for (let i = obIdx + 1; i < candles.length; i++) {
-      const c = candles[i];
-      if (ob.type === 'BULLISH' && c.low <= ob.bottom) {
-        ob.mitigated = true; ob.mitigationTime = c.time; break;
-      }
-      if (ob.type === 'BEARISH' && c.high >= ob.top) {
-        ob.mitigated = true; ob.mitigationTime = c.time; break;
-      }
+      if (updateOBMitigation(ob, candles[i])) break;
     }
   }
 
   return blocks.filter(b => b.strength > 20); // filter weak blocks
 }
 
+/** Consecutive opposing candles merged into one block at most */
+export const OB_MAX_CANDLES = 5;
+
+/**
+ * Locate the OB for a single structure break at candles[spIdx]:
+ * the last opposing candle within the 20 bars before the break, merged with
+ * the run of opposing candles directly before it (up to OB_MAX_CANDLES).
+ *
+ * Strength (0-100) = volume inside the block vs average (≤ 40)
+ *                  + displacement away from the block in block heights (≤ 40)
+ *                  + the break that created it: MSS 20, BOS 15, CHoCH 10
+ */
+export function findOrderBlock(
+  candles: Candle[],
+  spIdx: number,
+  sp: StructurePoint,
+  avgVol: number,
+  timeframe: Timeframe,
+  definition: OBDefinition = 'WICK'
+): OrderBlock | null {
+  const bullish = sp.type.includes('BULL');
+  const opposing = (c: Candle) => bullish ? c.close < c.open : c.close > c.open;
+
+  for (let j = spIdx - 1; j >= Math.max(0, spIdx - 20); j--) {
+    if (!opposing(candles[j])) continue;
+
+    let first = j;
+    while (first > 0 && j - first + 1 < OB_MAX_CANDLES && opposing(candles[first - 1])) first--;
+    const block = candles.slice(first, j + 1);
+
+    let top = -Infinity, bottom = Infinity, volume = 0;
+    for (const c of block) {
+      const [lo, hi] = obCandleRange(c, bullish, definition);
+      top = Math.max(top, hi);
+      bottom = Math.min(bottom, lo);
+      volume += c.volume;
+    }
+
+    const height = top - bottom;
+    const move = bullish ? sp.price - top : bottom - sp.price;
+    const volStrength = avgVol > 0 ? Math.min(40, (volume / block.length / avgVol) * 20) : 0;
+    const moveStrength = height > 0 ? Math.max(0, Math.min(40, (move / height) * 10)) : 0;
+    const breakStrength = sp.type.startsWith('MSS') ? 20 : sp.type.startsWith('BOS') ? 15 : 10;
+    const c = candles[j];
+
+    return {
+      id: `ob_${bullish ? 'bull' : 'bear'}_${c.time}`,
+      type: bullish ? 'BULLISH' : 'BEARISH',
+      top,
+      bottom,
+      meanThreshold: (top + bottom) / 2,
+      time: c.time,
+      startTime: block[0].time,
+      candleCount: block.length,
+      definition,
+      mitigated: false,
+      mitigationState: 'UNTOUCHED',
+      volume,
+      strength: Math.round(Math.min(100, volStrength + moveStrength + breakStrength)),
+      timeframe,
+    };
+  }
+
+  return null;
+}
+
+/** [bottom, top] of one OB candle under the given definition */
+function obCandleRange(c: Candle, bullish: boolean, definition: OBDefinition): [number, number] {
+  const bodyLow = Math.min(c.open, c.close);
+  const bodyHigh = Math.max(c.open, c.close);
+  switch (definition) {
+    case 'FULL': return [c.low, c.high];
+    case 'BODY': return [bodyLow, bodyHigh];
+    case 'WICK': return bullish ? [c.low, c.open] : [c.open, c.high]; // open → far wick
+  }
+}
+
+/**
+ * Apply one candle to an OB's mitigation state. `mitigated` is set when a wick
+ * reaches the far edge; returns true once VIOLATED (closed beyond the far edge).
+ */
+export function updateOBMitigation(ob: OrderBlock, c: Candle): boolean {
+  if (ob.mitigationState === 'VIOLATED') return true;
+  const bullish = ob.type === 'BULLISH';
+
+  if (!ob.mitigated && (bullish ? c.low <= ob.bottom : c.high >= ob.top)) {
+    ob.mitigated = true; ob.mitigationTime = c.time;
+  }
+
+  let next: OBMitigationState = ob.mitigationState;
+  if (bullish ? c.close < ob.bottom : c.close > ob.top) next = 'VIOLATED';
+  else if (bullish ? c.low <= ob.meanThreshold : c.high >= ob.meanThreshold) next = 'MEAN_THRESHOLD';
+  else if (ob.mitigationState === 'UNTOUCHED' && (bullish ? c.low <= ob.top : c.high >= ob.bottom)) next = 'TOUCHED';
+
+  if (next !== ob.mitigationState) {
+    ob.mitigationState = next;
+    ob.mitigationStateTime = c.time;
+  }
+  return next === 'VIOLATED';
+}
+
 // ─── FAIR VALUE GAP (FVG) ─────────────────────────────────────────────────────
 
 /**
@@ -205,86 +393,331 @@ export function detectFVGs(
   const fvgs: FairValueGap[] = [];
 
   for (let i = 1; i < candles.length - 1; i++) {
-    const prev = candles[i - 1];
-    const curr = candles[i];
-    const next = candles[i + 1];
-
-    // Bullish FVG: gap between prev.high and next.low
-    if (next.low > prev.high) {
-      const gapSize = (next.low - prev.high) / prev.high * 100;
-      if (gapSize >= minSizePercent) {
-        const top = next.low;
-        const bottom = prev.high;
-        const mid = (top + bottom) / 2;
-        fvgs.push({
-          id: `fvg_bull_${curr.time}`,
-          type: 'BULLISH',
-          top, bottom, midpoint: mid,
-          time: curr.time,
-          filled: false,
-          fillPercent: 0,
-          timeframe,
-        });
-      }
+    const fvg = detectFVGAt(candles, i, timeframe, minSizePercent);
+    if (fvg) fvgs.push(fvg);
+  }
+
+  // Track lifecycle (fill depth, CE, close-through, expiry) from the confirming candle on
+  for (const fvg of fvgs) {
+    const fvgIdx = candles.findIndex(c => c.time >= fvg.time);
+    for (let i = fvgIdx + 2; i < candles.length; i++) {
+      if (updateFVGState(fvg, candles[i])) break;
     }
+  }
 
-    // Bearish FVG: gap between prev.low and next.high
-    if (next.high < prev.low) {
-      const gapSize = (prev.low - next.high) / prev.low * 100;
-      if (gapSize >= minSizePercent) {
-        const top = prev.low;
-        const bottom = next.high;
-        const mid = (top + bottom) / 2;
-        fvgs.push({
-          id: `fvg_bear_${curr.time}`,
-          type: 'BEARISH',
-          top, bottom, midpoint: mid,
-          time: curr.time,
-          filled: false,
-          fillPercent: 0,
-          timeframe,
-        });
-      }
+  return fvgs;
+}
+
+/** Test the 3-candle window centred on candles[i] for a gap. */
+export function detectFVGAt(
+  candles: Candle[],
+  i: number,
+  timeframe: Timeframe,
+  minSizePercent = 0.05
+): FairValueGap | null {
+  const prev = candles[i - 1];
+  const curr = candles[i];
+  const next = candles[i + 1];
+
+  // Bullish FVG: gap between prev.high and next.low
+  if (next.low > prev.high) {
+    const gapSize = (next.low - prev.high) / prev.high * 100;
+    if (gapSize >= minSizePercent) {
+      const top = next.low;
+      const bottom = prev.high;
+      const mid = (top + bottom) / 2;
+      return {
+        id: `fvg_bull_${curr.time}`,
+        type: 'BULLISH',
+        top, bottom, midpoint: mid,
+        time: curr.time,
+        filled: false,
+        fillPercent: 0,
+        state: 'FRESH',
+        ceBroken: false,
+        ageBars: 0,
+        timeframe,
+      };
+    }
+  }
+
+  // Bearish FVG: gap between prev.low and next.high
+  if (next.high < prev.low) {
+    const gapSize = (prev.low - next.high) / prev.low * 100;
+    if (gapSize >= minSizePercent) {
+      const top = prev.low;
+      const bottom = next.high;
+      const mid = (top + bottom) / 2;
+      return {
+        id: `fvg_bear_${curr.time}`,
+        type: 'BEARISH',
+        top, bottom, midpoint: mid,
+        time: curr.time,
+        filled: false,
+        fillPercent: 0,
+        state: 'FRESH',
+        ceBroken: false,
+        ageBars: 0,
+        timeframe,
+      };
+    }
+  }
+
+  return null;
+}
+
+/** Bars after which an untraded-through FVG is considered stale */
+export const FVG_MAX_AGE = 100;
+
+/** Still a tradeable gap: not traded to the far edge, not closed through, not expired */
+export function isFVGActive(fvg: FairValueGap): boolean {
+  return !fvg.filled && fvg.state !== 'CLOSED_THROUGH' && fvg.state !== 'EXPIRED';
+}
+
+/**
+ * Apply one (later) candle to an FVG's lifecycle. Returns true once the gap
+ * reaches a terminal state (CLOSED_THROUGH / EXPIRED).
+ */
+export function updateFVGState(fvg: FairValueGap, c: Candle, maxAge = FVG_MAX_AGE): boolean {
+  if (fvg.state === 'CLOSED_THROUGH' || fvg.state === 'EXPIRED') return true;
+  fvg.ageBars++;
+
+  const bullish = fvg.type === 'BULLISH';
+  const size = fvg.top - fvg.bottom;
+  const entered = bullish ? c.low <= fvg.top : c.high >= fvg.bottom;
+
+  if (entered) {
+    // Deepest penetration wins — a shallow later candle must not reset it
+    const penetration = Math.min(bullish ? fvg.top - c.low : c.high - fvg.bottom, size);
+    fvg.fillPercent = Math.max(fvg.fillPercent, (penetration / size) * 100);
+    if (!fvg.filled && (bullish ? c.low <= fvg.bottom : c.high >= fvg.top)) {
+      fvg.filled = true; fvg.fillPercent = 100; fvg.filledTime = c.time;
+    }
+
+    const closedThrough = bullish ? c.close < fvg.bottom : c.close > fvg.top;
+    const closedBeyondCE = bullish ? c.close < fvg.midpoint : c.close > fvg.midpoint;
+    const reachedCE = bullish ? c.low <= fvg.midpoint : c.high >= fvg.midpoint;
+
+    if (closedThrough) {
+      setFVGState(fvg, 'CLOSED_THROUGH', c.time);
+      return true;
+    }
+    if (closedBeyondCE) fvg.ceBroken = true;
+
+    const next = !fvg.ceBroken && (reachedCE || fvg.state === 'CE_RESPECTED') ? 'CE_RESPECTED' : 'TOUCHED';
+    if (next !== fvg.state) setFVGState(fvg, next, c.time);
+  }
+
+  if (fvg.ageBars >= maxAge) {
+    setFVGState(fvg, 'EXPIRED', c.time);
+    return true;
+  }
+  return false;
+}
+
+function setFVGState(fvg: FairValueGap, state: FairValueGap['state'], time: number): void {
+  fvg.state = state;
+  fvg.stateTime = time;
+}
+
+// ─── VOLUME IMBALANCE / LIQUIDITY VOID ────────────────────────────────────────
+
+/**
+ * Volume Imbalance: two consecutive candles whose BODIES leave a gap while
+ * their WICKS still overlap (a milder cousin of the 3-candle FVG).
+ * Bullish: curr body bottom > prev body top, curr.low <= prev.high.
+ */
+export function detectVolumeImbalances(
+  candles: Candle[],
+  timeframe: Timeframe,
+  minSizePercent = 0.01
+): VolumeImbalance[] {
+  const vis: VolumeImbalance[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const vi = detectVolumeImbalanceAt(candles, i, timeframe, minSizePercent);
+    if (!vi) continue;
+    for (let j = i + 1; j < candles.length; j++) {
+      if (updateFVGState(vi, candles[j])) break;
+    }
+    vis.push(vi);
+  }
+
+  return vis;
+}
+
+/** Test candles[i-1] → candles[i] for a volume imbalance. */
+export function detectVolumeImbalanceAt(
+  candles: Candle[],
+  i: number,
+  timeframe: Timeframe,
+  minSizePercent = 0.01
+): VolumeImbalance | null {
+  const prev = candles[i - 1];
+  const curr = candles[i];
+  const prevTop = Math.max(prev.open, prev.close), prevBot = Math.min(prev.open, prev.close);
+  const currTop = Math.max(curr.open, curr.close), currBot = Math.min(curr.open, curr.close);
+
+  let type: 'BULLISH' | 'BEARISH' | null = null;
+  let top = 0, bottom = 0;
+  if (currBot > prevTop && curr.low <= prev.high) { type = 'BULLISH'; top = currBot; bottom = prevTop; }
+  if (currTop < prevBot && curr.high >= prev.low) { type = 'BEARISH'; top = prevBot; bottom = currTop; }
+  if (!type || (top - bottom) / bottom * 100 < minSizePercent) return null;
+
+  return {
+    id: `vi_${type === 'BULLISH' ? 'bull' : 'bear'}_${curr.time}`,
+    kind: 'VOLUME_IMBALANCE',
+    type,
+    top, bottom, midpoint: (top + bottom) / 2,
+    time: curr.time,
+    filled: false,
+    fillPercent: 0,
+    state: 'FRESH',
+    ceBroken: false,
+    ageBars: 0,
+    timeframe,
+  };
+}
+
+/**
+ * Liquidity Void: ≥ minCandles consecutive displacement candles in one
+ * direction whose ranges barely overlap (≤ 25% of the smaller range).
+ * Zone = first open → last close of the run.
+ */
+export function detectLiquidityVoids(
+  candles: Candle[],
+  timeframe: Timeframe,
+  minCandles = 3
+): LiquidityVoid[] {
+  const voids: LiquidityVoid[] = [];
+
+  // A run ending at i is only final once candles[i+1] fails to extend it
+  for (let i = 1; i < candles.length - 1; i++) {
+    const lv = detectLiquidityVoidEndingAt(candles, i, timeframe, minCandles);
+    if (!lv) continue;
+    for (let j = i + 2; j < candles.length; j++) {
+      if (updateFVGState(lv, candles[j])) break;
     }
+    voids.push(lv);
   }
 
-  // Track fill status
+  return voids;
+}
+
+/** Maximal void run ending exactly at candles[end] (needs candles[end+1]). */
+export function detectLiquidityVoidEndingAt(
+  candles: Candle[],
+  end: number,
+  timeframe: Timeframe,
+  minCandles = 3
+): LiquidityVoid | null {
+  for (const bullish of [true, false]) {
+    if (!isDisplacementCandle(candles, end, bullish)) continue;
+    if (end + 1 < candles.length && extendsVoid(candles, end + 1, bullish)) continue;
+
+    let start = end;
+    while (start > 0 && extendsVoid(candles, start, bullish)) start--;
+    const count = end - start + 1;
+    if (count < minCandles) continue;
+
+    const first = candles[start], last = candles[end];
+    const top = bullish ? last.close : first.open;
+    const bottom = bullish ? first.open : last.close;
+    return {
+      id: `lv_${bullish ? 'bull' : 'bear'}_${last.time}`,
+      kind: 'LIQUIDITY_VOID',
+      type: bullish ? 'BULLISH' : 'BEARISH',
+      top, bottom, midpoint: (top + bottom) / 2,
+      time: last.time,
+      startTime: first.time,
+      candleCount: count,
+      filled: false,
+      fillPercent: 0,
+      state: 'FRESH',
+      ceBroken: false,
+      ageBars: 0,
+      timeframe,
+    };
+  }
+  return null;
+}
+
+/** candles[i] continues a void started before it: displacement + thin overlap with i-1 */
+function extendsVoid(candles: Candle[], i: number, bullish: boolean): boolean {
+  if (i < 1 || !isDisplacementCandle(candles, i - 1, bullish) || !isDisplacementCandle(candles, i, bullish)) return false;
+  const a = candles[i - 1], b = candles[i];
+  const overlap = Math.min(a.high, b.high) - Math.max(a.low, b.low);
+  return overlap <= Math.min(a.high - a.low, b.high - b.low) * 0.25;
+}
+
+// ─── INVERSE FVG (IFVG) ───────────────────────────────────────────────────────
+
+/**
+ * IFVG = FVG that a candle CLOSED through (not just wicked).
+ * The zone flips: a closed-through bullish FVG becomes bearish resistance and
+ * vice versa. The IFVG then runs its own lifecycle like any FVG.
+ */
+export function detectInverseFVGs(candles: Candle[], fvgs: FairValueGap[]): InverseFVG[] {
+  const ifvgs: InverseFVG[] = [];
+
   for (const fvg of fvgs) {
-    const fvgIdx = candles.findIndex(c => c.time >= fvg.time);
-    for (let i = fvgIdx + 1; i < candles.length; i++) {
-      const c = candles[i];
-      if (fvg.type === 'BULLISH') {
-        if (c.low <= fvg.top) {
-          const penetration = Math.min(fvg.top - c.low, fvg.top - fvg.bottom);
-          fvg.fillPercent = (penetration / (fvg.top - fvg.bottom)) * 100;
-          if (c.low <= fvg.bottom) { fvg.filled = true; fvg.fillPercent = 100; break; }
-        }
-      } else {
-        if (c.high >= fvg.bottom) {
-          const penetration = Math.min(c.high - fvg.bottom, fvg.top - fvg.bottom);
-          fvg.fillPercent = (penetration / (fvg.top - fvg.bottom)) * 100;
-          if (c.high >= fvg.top) { fvg.filled = true; fvg.fillPercent = 100; break; }
-        }
-      }
+    if (fvg.state !== 'CLOSED_THROUGH' || fvg.stateTime === undefined) continue;
+    const idx = candles.findIndex(c => c.time === fvg.stateTime);
+    if (idx === -1) continue;
+    const ifvg = invertFVG(fvg, candles[idx]);
+    if (!ifvg) continue;
+
+    for (let i = idx + 1; i < candles.length; i++) {
+      if (updateFVGState(ifvg, candles[i])) break;
     }
+    ifvgs.push(ifvg);
   }
 
-  return fvgs;
+  return ifvgs;
+}
+
+/** Flip an FVG if candle `c` closed through its far edge. */
+export function invertFVG(fvg: FairValueGap, c: Candle): InverseFVG | null {
+  const closedThrough = fvg.type === 'BULLISH' ? c.close < fvg.bottom : c.close > fvg.top;
+  if (!closedThrough) return null;
+
+  const type = fvg.type === 'BULLISH' ? 'BEARISH' : 'BULLISH';
+  return {
+    id: `ifvg_${type === 'BULLISH' ? 'bull' : 'bear'}_${fvg.time}`,
+    type,
+    originalType: fvg.type,
+    top: fvg.top,
+    bottom: fvg.bottom,
+    midpoint: fvg.midpoint,
+    time: c.time,
+    filled: false,
+    fillPercent: 0,
+    state: 'FRESH',
+    ceBroken: false,
+    ageBars: 0,
+    timeframe: fvg.timeframe,
+    sourceId: fvg.id,
+    sourceTime: fvg.time,
+  };
 }
 
 // ─── PD ARRAY / PREMIUM-DISCOUNT ─────────────────────────────────────────────
 
 /**
  * Premium/Discount zones based on Fibonacci levels of the last swing range.
+ * Fallback for when no structure leg exists yet — prefer the dealing range.
  * Price in Premium = sell bias. Price in Discount = buy bias.
+ * Provisional swings may be included; the result is flagged when an edge is one.
  */
 export function calcPDArray(swings: SwingPoint[], currentPrice: number): PDArray | null {
   const highs = swings.filter(s => s.type === 'HIGH').slice(-3);
   const lows  = swings.filter(s => s.type === 'LOW').slice(-3);
   if (!highs.length || !lows.length) return null;
 
-  const high = Math.max(...highs.map(s => s.price));
-  const low  = Math.min(...lows.map(s => s.price));
+  const highSwing = highs.reduce((a, b) => (b.price > a.price ? b : a));
+  const lowSwing  = lows.reduce((a, b) => (b.price < a.price ? b : a));
+  const high = highSwing.price;
+  const low  = lowSwing.price;
   const range = high - low;
 
   return {
@@ -294,28 +727,351 @@ export function calcPDArray(swings: SwingPoint[], currentPrice: number): PDArray
     discount: low + range * 0.382,
     type: currentPrice > (low + range * 0.5) ? 'BEARISH' : 'BULLISH',
     strength: Math.min(100, (range / currentPrice) * 10000),
+    provisional: highSwing.status === 'PROVISIONAL' || lowSwing.status === 'PROVISIONAL',
+  };
+}
+
+// ─── DEALING RANGE ────────────────────────────────────────────────────────────
+
+/**
+ * A structure leg behind a dealing range. Its far end (`extreme`) is scanned
+ * forward lazily — `scanned` is the last candle index looked at — so a
+ * streaming caller pays once per candle, not once per read.
+ */
+export interface DealingLeg {
+  kind: DealingRange['kind'];
+  sp: StructurePoint;
+  breakIdx: number;
+  origin: number;
+  parent?: number;   // index of the external leg an internal leg nests in
+  end?: number;      // index of the break that closed it
+  extreme: number;
+  scanned: number;
+}
+
+/**
+ * Add the leg of a BOS / MSS at `breakIdx` (a bare CHoCH doesn't define a leg).
+ * A break against the external range's direction closes it and opens a new one;
+ * a break with it opens a new INTERNAL range and the external keeps stretching.
+ */
+export function addDealingLeg(legs: DealingLeg[], candles: Candle[], sp: StructurePoint, breakIdx: number): void {
+  if (sp.type.includes('CHoCH')) return;
+  const origin = legOrigin(candles, sp, breakIdx);
+  const last = legs[legs.length - 1];
+  const ext = !last ? -1 : last.kind === 'EXTERNAL' ? legs.length - 1 : last.parent ?? -1;
+  if (last?.kind === 'INTERNAL') last.end = breakIdx;
+
+  const leg = { sp, breakIdx, origin, extreme: origin, scanned: origin - 1 };
+  if (ext === -1 || legs[ext].sp.type.includes('BULL') !== sp.type.includes('BULL')) {
+    if (ext !== -1) legs[ext].end = breakIdx;
+    legs.push({ kind: 'EXTERNAL', ...leg });
+  } else {
+    legs.push({ kind: 'INTERNAL', ...leg, parent: ext });
+  }
+}
+
+/** Scan each leg's extreme up to its end (or the last candle); fully scanned legs cost nothing */
+export function scanDealingLegs(legs: DealingLeg[], candles: Candle[]): void {
+  for (const leg of legs) {
+    const bullish = leg.sp.type.includes('BULL');
+    const end = leg.end ?? candles.length - 1;
+    for (let i = leg.scanned + 1; i <= end; i++) {
+      if (bullish ? candles[i].high > candles[leg.extreme].high : candles[i].low < candles[leg.extreme].low) leg.extreme = i;
+    }
+    leg.scanned = Math.max(leg.scanned, end);
+  }
+}
+
+/** Dealing ranges of `legs`, oldest first; each is measured up to its endTime (or the last candle). */
+export function dealingRangesFromLegs(legs: DealingLeg[], candles: Candle[]): DealingRange[] {
+  scanDealingLegs(legs, candles);
+  const ranges: DealingRange[] = [];
+  for (const leg of legs) {
+    const bullish = leg.sp.type.includes('BULL');
+    const hiIdx = bullish ? leg.extreme : leg.origin;
+    const loIdx = bullish ? leg.origin : leg.extreme;
+    let high = candles[hiIdx].high;
+    let low = candles[loIdx].low;
+
+    // Internal ranges never poke outside their external range
+    const parent = leg.parent !== undefined ? ranges[leg.parent] : undefined;
+    if (parent) {
+      high = Math.min(high, parent.high);
+      low = Math.max(low, parent.low);
+    }
+
+    const range = high - low;
+    ranges.push({
+      id: `dr_${leg.kind === 'EXTERNAL' ? 'ext' : 'inner'}_${leg.sp.time}`,
+      kind: leg.kind,
+      direction: bullish ? 'BULLISH' : 'BEARISH',
+      high, low,
+      highTime: candles[hiIdx].time,
+      lowTime: candles[loIdx].time,
+      premium: low + range * 0.618,
+      equilibrium: low + range * 0.5,
+      discount: low + range * 0.382,
+      structure: leg.sp,
+      parentId: parent?.id,
+      startTime: leg.sp.time,
+      endTime: leg.end !== undefined ? candles[leg.end].time : undefined,
+    });
+  }
+  return ranges;
+}
+
+/** Dealing ranges from structure legs (BOS / MSS), oldest first — see addDealingLeg. */
+export function calcDealingRanges(candles: Candle[], structurePoints: StructurePoint[]): DealingRange[] {
+  const indexOf = new Map<number, number>();
+  candles.forEach((c, i) => indexOf.set(c.time, i));
+
+  const legs: DealingLeg[] = [];
+  for (const sp of structurePoints) {
+    const breakIdx = indexOf.get(sp.time);
+    if (breakIdx !== undefined) addDealingLeg(legs, candles, sp, breakIdx);
+  }
+  return dealingRangesFromLegs(legs, candles);
+}
+
+/** The open external range and the open internal range nested in it */
+export function currentDealingRange(ranges: DealingRange[]): { external: DealingRange | null; internal: DealingRange | null } {
+  const open = ranges.filter(r => r.endTime === undefined);
+  const external = open.filter(r => r.kind === 'EXTERNAL').pop() ?? null;
+  const internal = open.filter(r => r.kind === 'INTERNAL' && r.parentId === external?.id).pop() ?? null;
+  return { external, internal };
+}
+
+/** PD array view of a dealing range */
+export function pdArrayFromRange(range: DealingRange, currentPrice: number): PDArray {
+  return {
+    high: range.high,
+    low: range.low,
+    premium: range.premium,
+    equilibrium: range.equilibrium,
+    discount: range.discount,
+    type: currentPrice > range.equilibrium ? 'BEARISH' : 'BULLISH',
+    strength: Math.min(100, ((range.high - range.low) / currentPrice) * 10000),
+    provisional: false,
   };
 }
 
+// ─── OPTIMAL TRADE ENTRY (OTE) ────────────────────────────────────────────────
+
+/**
+ * OTE on the impulse leg of the latest BOS/MSS (CHoCH alone doesn't qualify).
+ * Leg = origin before the break → most extreme price since the origin.
+ * Long:  buy 62-79% retracement of low→high, targets above the high.
+ * Short: sell 62-79% retracement of high→low, targets below the low.
+ */
+export function calcOTE(candles: Candle[], structurePoints: StructurePoint[]): OTEZone | null {
+  let sp: StructurePoint | undefined;
+  for (let k = structurePoints.length - 1; k >= 0; k--) {
+    if (!structurePoints[k].type.includes('CHoCH')) { sp = structurePoints[k]; break; }
+  }
+  if (!sp) return null;
+
+  let breakIdx = -1;
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if (candles[i].time === sp.time) { breakIdx = i; break; }
+  }
+  if (breakIdx === -1) return null;
+
+  const legs: DealingLeg[] = [];
+  addDealingLeg(legs, candles, sp, breakIdx);
+  return oteFromLeg(legs[0], candles);
+}
+
+/** OTE of an open leg (the latest one — its extreme runs to the last candle) */
+export function oteFromLeg(leg: DealingLeg, candles: Candle[]): OTEZone | null {
+  scanDealingLegs([leg], candles);
+  const bullish = leg.sp.type.includes('BULL');
+  const { origin, extreme } = leg;
+  const legHigh = bullish ? candles[extreme].high : candles[origin].high;
+  const legLow  = bullish ? candles[origin].low  : candles[extreme].low;
+  const range = legHigh - legLow;
+  if (range <= 0) return null;
+
+  // Retracement r from the extreme; extension e beyond the extreme
+  const retr = (r: number) => bullish ? legHigh - range * r : legLow + range * r;
+  const ext  = (e: number) => bullish ? legHigh + range * e : legLow - range * e;
+
+  return {
+    type: bullish ? 'BULLISH' : 'BEARISH',
+    legHigh, legLow,
+    legStartTime: candles[origin].time,
+    legEndTime: candles[extreme].time,
+    ote62: retr(0.62),
+    ote705: retr(0.705),
+    ote79: retr(0.79),
+    target27: ext(0.27),
+    target62: ext(0.62),
+    structure: leg.sp,
+  };
+}
+
+/** Is `price` inside the 62-79% OTE band? */
+export function inOTE(ote: OTEZone, price: number): boolean {
+  return price <= Math.max(ote.ote62, ote.ote79) && price >= Math.min(ote.ote62, ote.ote79);
+}
+
+/** OTE extension targets that lie beyond `entry` in the trade direction, nearest first. */
+export function oteTargets(ote: OTEZone | null, direction: 'LONG' | 'SHORT', entry: number): number[] {
+  if (!ote || ote.type !== (direction === 'LONG' ? 'BULLISH' : 'BEARISH')) return [];
+  return [ote.target27, ote.target62]
+    .filter(t => direction === 'LONG' ? t > entry : t < entry)
+    .sort((a, b) => Math.abs(a - entry) - Math.abs(b - entry));
+}
+
+/**
+ * TP1/TP2 for a trade: OTE extensions where they lie ahead, else ATR multiples.
+ * A missing TP2 is measured from TP1, so TP2 is never nearer than TP1.
+ */
+export function takeProfits(ote: OTEZone | null, direction: 'LONG' | 'SHORT', entry: number, atr: number): [number, number] {
+  const sign = direction === 'LONG' ? 1 : -1;
+  const [oteTp1, oteTp2] = oteTargets(ote, direction, entry);
+  const tp1 = oteTp1 ?? entry + sign * atr * 2.5;
+  return [tp1, oteTp2 ?? tp1 + sign * atr * 2.5];
+}
+
 // ─── BREAKER BLOCK ────────────────────────────────────────────────────────────
 
+/** Bars a breaker candidate has to print new structure before it is dropped */
+export const BREAKER_CONFIRM_BARS = 20;
+
 /**
- * A Breaker Block is an OB that has been MITIGATED (swept) and then
- * price returned to it — now it acts as the opposite bias.
- * Bullish OB that got swept → becomes Bearish Breaker (and vice versa)
+ * A Breaker Block is an OB that FAILED — price closed through it — and then
+ * printed new structure the other way. Price returning to it is the retest.
+ * Bullish OB that failed → Bearish Breaker (and vice versa).
+ *
+ * CANDIDATE:   candle closes through the OB
+ * CONFIRMED:   structure break in the new direction
+ * RETESTED:    price trades back into the zone (`mitigated`), then closes back out on the breaker's side
+ * INVALIDATED: close back through the far side, or no structure in time
+ *
+ * If the OB's move never made a new extreme it is a Mitigation Block instead.
  */
 export function detectBreakerBlocks(
   orderBlocks: OrderBlock[],
-  candles: Candle[]
-): OrderBlock[] {
-  return orderBlocks
-    .filter(ob => ob.mitigated)
-    .map(ob => ({
-      ...ob,
-      id: `brk_${ob.id}`,
-      type: ob.type === 'BULLISH' ? 'BEARISH' as const : 'BULLISH' as const,
-      strength: ob.strength + 20, // breakers are stronger than OBs
-    }));
+  candles: Candle[],
+  structurePoints: StructurePoint[],
+  swings: SwingPoint[]
+): BreakerBlock[] {
+  const breakers: BreakerBlock[] = [];
+  const byTime = new Map<number, StructurePoint[]>();
+  for (const sp of structurePoints) byTime.set(sp.time, [...(byTime.get(sp.time) ?? []), sp]);
+
+  for (const ob of orderBlocks) {
+    const obIdx = candles.findIndex(c => c.time >= ob.time);
+    let bb: BreakerBlock | null = null;
+
+    for (let i = obIdx + 1; i < candles.length; i++) {
+      const points = byTime.get(candles[i].time) ?? [];
+      if (!bb) {
+        bb = checkOBFailure(ob, obIdx, candles, i, swings, points);
+        if (bb) breakers.push(bb);
+      } else if (updateBreakerBlock(bb, candles[i], i, points)) {
+        break;
+      }
+    }
+  }
+
+  return breakers;
+}
+
+/**
+ * Does candles[i] close through the OB (candle at obIdx)? If so, build the
+ * flipped block. `points` = structure printed on candles[i] (may confirm immediately).
+ */
+export function checkOBFailure(
+  ob: OrderBlock,
+  obIdx: number,
+  candles: Candle[],
+  i: number,
+  swings: SwingPoint[],
+  points: StructurePoint[] = []
+): BreakerBlock | null {
+  const c = candles[i];
+  const bullishOB = ob.type === 'BULLISH';
+  if (bullishOB ? c.close >= ob.bottom : c.close <= ob.top) return null;
+
+  // New extreme = the OB's move exceeded the last opposite swing before the OB
+  const prior = swings
+    .filter(s => s.index < obIdx && s.type === (bullishOB ? 'HIGH' : 'LOW'))
+    .pop();
+  let extreme = bullishOB ? -Infinity : Infinity;
+  for (let j = obIdx + 1; j < i; j++) {
+    extreme = bullishOB ? Math.max(extreme, candles[j].high) : Math.min(extreme, candles[j].low);
+  }
+  const madeNewExtreme = !!prior && (bullishOB ? extreme > prior.price : extreme < prior.price);
+  const kind = madeNewExtreme ? 'BREAKER' : 'MITIGATION';
+
+  const bb: BreakerBlock = {
+    ...ob,
+    id: `${kind === 'BREAKER' ? 'brk' : 'mb'}_${ob.id}`,
+    type: bullishOB ? 'BEARISH' : 'BULLISH',
+    mitigated: false,
+    mitigationTime: undefined,
+    mitigationState: 'UNTOUCHED',
+    mitigationStateTime: undefined,
+    strength: Math.min(100, ob.strength + (kind === 'BREAKER' ? 20 : 10)), // breakers are stronger than OBs
+    kind,
+    sourceId: ob.id,
+    state: 'CANDIDATE',
+    history: [{ state: 'CANDIDATE', time: c.time }],
+    breakIndex: i,
+    breakTime: c.time,
+  };
+  confirmBreaker(bb, c, points);
+  return bb;
+}
+
+/**
+ * Apply one candle (index i) and the structure printed on it to a block.
+ * Returns true once the block is INVALIDATED (nothing left to track).
+ */
+export function updateBreakerBlock(
+  bb: BreakerBlock,
+  c: Candle,
+  i: number,
+  points: StructurePoint[] = []
+): boolean {
+  if (bb.state === 'INVALIDATED') return true;
+  const bearish = bb.type === 'BEARISH';
+
+  // Close back through the far side kills it in any state
+  if (bearish ? c.close > bb.top : c.close < bb.bottom) {
+    setBreakerState(bb, 'INVALIDATED', c.time);
+    return true;
+  }
+
+  if (bb.state === 'CANDIDATE') {
+    confirmBreaker(bb, c, points);
+    if (bb.state === 'CANDIDATE' && i - bb.breakIndex >= BREAKER_CONFIRM_BARS) {
+      setBreakerState(bb, 'INVALIDATED', c.time);
+      return true;
+    }
+    return false;
+  }
+
+  if (bb.state === 'CONFIRMED') {
+    const touched = bearish ? c.high >= bb.bottom : c.low <= bb.top;
+    if (touched && !bb.mitigated) { bb.mitigated = true; bb.mitigationTime = c.time; }
+    const rejected = bearish ? c.close < bb.bottom : c.close > bb.top;
+    if (bb.mitigated && rejected) setBreakerState(bb, 'RETESTED', c.time);
+  }
+  return false;
+}
+
+function confirmBreaker(bb: BreakerBlock, c: Candle, points: StructurePoint[]): void {
+  const sp = points.find(p => p.type.includes(bb.type === 'BEARISH' ? 'BEAR' : 'BULL'));
+  if (!sp) return;
+  bb.structure = sp;
+  setBreakerState(bb, 'CONFIRMED', c.time);
+}
+
+function setBreakerState(bb: BreakerBlock, state: BreakerState, time: number): void {
+  bb.state = state;
+  bb.history.push({ state, time });
 }
 
 // ─── BALANCED PRICE RANGE (BPR) ───────────────────────────────────────────────
@@ -327,11 +1083,11 @@ export function detectBreakerBlocks(
 export function detectBPR(
   bullFVGs: FairValueGap[],
   bearFVGs: FairValueGap[]
-): Array<{ top: number; bottom: number; time: number; strength: number }> {
-  const bprs: Array<{ top: number; bottom: number; time: number; strength: number }> = [];
+): BalancedPriceRange[] {
+  const bprs: BalancedPriceRange[] = [];
 
-  for (const bull of bullFVGs.filter(f => !f.filled)) {
-    for (const bear of bearFVGs.filter(f => !f.filled)) {
+  for (const bull of bullFVGs.filter(isFVGActive)) {
+    for (const bear of bearFVGs.filter(isFVGActive)) {
       const overlapTop    = Math.min(bull.top, bear.top);
       const overlapBottom = Math.max(bull.bottom, bear.bottom);
       if (overlapTop > overlapBottom) {
@@ -341,6 +1097,9 @@ export function detectBPR(
           bottom: overlapBottom,
           time: Math.max(bull.time, bear.time),
           strength: Math.min(100, overlapSize * 20),
+          bullId: bull.id,
+          bearId: bear.id,
+          timeframes: bull.timeframe === bear.timeframe ? [bull.timeframe] : [bull.timeframe, bear.timeframe],
         });
       }
     }
@@ -351,36 +1110,10 @@ export function detectBPR(
 
 // ─── SCORING HELPERS ──────────────────────────────────────────────────────────
 
-/** Rate where price is relative to a PD array: 0=premium, 50=eq, 100=discount */
-export function pdScore(pd: PDArray, price: number): number {
+/** Rate where price is relative to a PD array / dealing range: 0=premium, 50=eq, 100=discount */
+export function pdScore(pd: Pick<PDArray, 'premium' | 'discount'>, price: number): number {
   if (price >= pd.premium) return 0;    // overpriced, sell bias
   if (price <= pd.discount) return 100; // cheap, buy bias
   // linear interpolation between discount and premium
   return ((pd.premium - price) / (pd.premium - pd.discount)) * 100;
 }
-
-/** How many unmitigated OBs are stacked near current price (within pct%) */
-export function countNearbyOBs(
-  obs: OrderBlock[],
-  price: number,
-  pctRange = 1.0
-): { bullish: number; bearish: number } {
-  const range = price * pctRange / 100;
-  return {
-    bullish: obs.filter(ob => !ob.mitigated && ob.type === 'BULLISH' && Math.abs(ob.top - price) < range).length,
-    bearish: obs.filter(ob => !ob.mitigated && ob.type === 'BEARISH' && Math.abs(ob.bottom - price) < range).length,
-  };
-}
-
-/** Returns the most recent unmitigated FVG near price */
-export function nearestFVG(
-  fvgs: FairValueGap[],
-  price: number,
-  pctRange = 2.0
-): FairValueGap | null {
-  const range = price * pctRange / 100;
-  const nearby = fvgs
-    .filter(f => !f.filled && Math.abs(f.midpoint - price) < range)
-    .sort((a, b) => b.time - a.time);
-  return nearby[0] ?? null;
-}
@@ -0,0 +1,60 @@
+import type { LiquidationHeatmap, OISample } from '../types';
+import {
+  liquidationPrice, createLiquidationModel, updateLiquidationModel, liquidationHeatmap, buildLiquidationHeatmap, liquidationLevels,
+} from './liquidation';
+
+const oi = (time: number, openInterest: number, price: number): OISample => ({ time, openInterest, price });
+
+const totals = (h: LiquidationHeatmap) => ({
+  longs: h.buckets.reduce((s, b) => s + b.longQty, 0),
+  shorts: h.buckets.reduce((s, b) => s + b.shortQty, 0),
+});
+
+// +100 OI on a rise to 101: 100 new longs, 50 passive shorts
+const opened = [oi(0, 1000, 100), oi(1, 1100, 101)];
+
+describe('liquidation heatmap', () => {
+  it('projects liquidation prices net of maintenance margin', () => {
+    expect(liquidationPrice(100, 10, 'LONG')).toBeCloseTo(90.5);
+    expect(liquidationPrice(100, 10, 'SHORT')).toBeCloseTo(109.5);
+  });
+
+  it('spreads new OI over the leverage tiers, weighting the side price moved with', () => {
+    const h = buildLiquidationHeatmap(opened);
+    const { longs, shorts } = totals(h);
+    expect(longs).toBeCloseTo(100);
+    expect(shorts).toBeCloseTo(50);
+    expect(h.buckets).toHaveLength(8);
+    expect(h.buckets.filter(b => b.longQty > 0).every(b => b.price < 101)).toBe(true);
+    expect(h.buckets.filter(b => b.shortQty > 0).every(b => b.price > 101)).toBe(true);
+    expect(h).toMatchObject({ bucketSize: 0.25, maxQty: 30, time: 1 });
+  });
+
+  it('closes every cluster pro rata when OI falls', () => {
+    const { longs, shorts } = totals(buildLiquidationHeatmap([...opened, oi(2, 550, 101)]));
+    expect(longs).toBeCloseTo(50);
+    expect(shorts).toBeCloseTo(25);
+  });
+
+  it('liquidates the clusters price trades through', () => {
+    const { longs } = totals(buildLiquidationHeatmap([...opened, oi(2, 1100, 100.3)]));
+    expect(longs).toBeCloseTo(85); // the 100× longs at ~100.5 are gone
+  });
+
+  it('ignores samples that are not newer than the last', () => {
+    const m = createLiquidationModel();
+    opened.forEach(s => updateLiquidationModel(m, s));
+    updateLiquidationModel(m, oi(1, 5000, 90));
+    expect(liquidationHeatmap(m)).toEqual(buildLiquidationHeatmap(opened));
+  });
+
+  it('turns the heaviest clusters into liquidity on either side of price', () => {
+    const h = buildLiquidationHeatmap(opened);
+    const top = liquidationLevels(h, 101, '15m', 2);
+    expect(top.map(l => [l.type, l.strength, l.origin])).toEqual([['LOW', 90, 'LIQUIDATION'], ['LOW', 90, 'LIQUIDATION']]);
+    const all = liquidationLevels(h, 101, '15m', 8);
+    expect(all.filter(l => l.type === 'HIGH').every(l => l.price > 101)).toBe(true);
+    expect(all).toHaveLength(8);
+    expect(liquidationLevels(buildLiquidationHeatmap([]), 101, '15m')).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * utils/liquidation.ts
+ * Estimated liquidation heatmap. Every OI increase opens a long and a short
+ * at the sample price; spread over common leverage tiers they project the
+ * prices where those positions would be force-closed. OI decreases close
+ * positions pro rata, price crossing a cluster liquidates it.
+ * A model, not exchange data — it only knows what OI and price imply.
+ */
+
+import type { LiquidationBucket, LiquidationHeatmap, LiquidityLevel, OISample, Timeframe } from '../types';
+
+/** Share of new positions opened at each leverage */
+export const LEVERAGE_TIERS: Array<{ leverage: number; weight: number }> = [
+  { leverage: 10,  weight: 0.30 },
+  { leverage: 25,  weight: 0.30 },
+  { leverage: 50,  weight: 0.25 },
+  { leverage: 100, weight: 0.15 },
+];
+
+export const MAINTENANCE_MARGIN = 0.005;
+export const LIQ_BUCKET_PCT = 0.25;     // bucket width, % of the first sample's price
+const PASSIVE_WEIGHT = 0.5;             // the side not pushing price is more often hedged
+
+export interface LiquidationModel {
+  bucketSize: number;
+  last: OISample | null;
+  longs: Map<number, number>;   // bucket index → qty
+  shorts: Map<number, number>;
+}
+
+export function createLiquidationModel(): LiquidationModel {
+  return { bucketSize: 0, last: null, longs: new Map(), shorts: new Map() };
+}
+
+/** Liquidation price of a position opened at `entry` */
+export function liquidationPrice(entry: number, leverage: number, side: 'LONG' | 'SHORT'): number {
+  return side === 'LONG'
+    ? entry * (1 - 1 / leverage + MAINTENANCE_MARGIN)
+    : entry * (1 + 1 / leverage - MAINTENANCE_MARGIN);
+}
+
+/**
+ * Feed one OI sample (oldest first). Rising OI with rising price counts the
+ * new longs fully and the new shorts at PASSIVE_WEIGHT, and vice versa.
+ * Only sample prices are seen, so wicks between samples do not liquidate.
+ */
+export function updateLiquidationModel(m: LiquidationModel, sample: OISample): void {
+  const prev = m.last;
+  if (prev && sample.time <= prev.time) return;
+  m.last = sample;
+  if (!prev) {
+    m.bucketSize = sample.price * LIQ_BUCKET_PCT / 100;
+    return;
+  }
+  if (m.bucketSize <= 0) return;
+
+  // Price crossed clusters since the last sample → those positions are gone
+  for (const [b] of Array.from(m.longs)) if (bucketMid(m, b) >= sample.price) m.longs.delete(b);
+  for (const [b] of Array.from(m.shorts)) if (bucketMid(m, b) <= sample.price) m.shorts.delete(b);
+
+  const dOI = sample.openInterest - prev.openInterest;
+  if (dOI > 0) {
+    const up = sample.price >= prev.price;
+    addPositions(m, m.longs, sample.price, dOI * (up ? 1 : PASSIVE_WEIGHT), 'LONG');
+    addPositions(m, m.shorts, sample.price, dOI * (up ? PASSIVE_WEIGHT : 1), 'SHORT');
+  } else if (dOI < 0) {
+    const keep = prev.openInterest > 0 ? Math.max(0, 1 + dOI / prev.openInterest) : 0; // same share of every cluster
+    for (const map of [m.longs, m.shorts]) {
+      map.forEach((q, b) => map.set(b, q * keep));
+    }
+  }
+}
+
+/** Current heatmap, buckets sorted by price */
+export function liquidationHeatmap(m: LiquidationModel): LiquidationHeatmap {
+  const keys = new Set<number>([...Array.from(m.longs.keys()), ...Array.from(m.shorts.keys())]);
+  const buckets: LiquidationBucket[] = Array.from(keys)
+    .sort((a, b) => a - b)
+    .map(b => ({ price: bucketMid(m, b), longQty: m.longs.get(b) ?? 0, shortQty: m.shorts.get(b) ?? 0 }))
+    .filter(b => b.longQty + b.shortQty > 0);
+  return {
+    bucketSize: m.bucketSize,
+    buckets,
+    maxQty: buckets.reduce((mx, b) => Math.max(mx, b.longQty + b.shortQty), 0),
+    time: m.last?.time ?? 0,
+  };
+}
+
+/** Batch: run a fresh model over OI samples */
+export function buildLiquidationHeatmap(samples: OISample[]): LiquidationHeatmap {
+  const m = createLiquidationModel();
+  for (const s of samples) updateLiquidationModel(m, s);
+  return liquidationHeatmap(m);
+}
+
+/**
+ * The `top` heaviest clusters as liquidity levels: long liquidations below
+ * price are LOW-side liquidity, short liquidations above are HIGH-side.
+ * Strength 30-90 by size relative to the heaviest bucket.
+ */
+export function liquidationLevels(
+  heatmap: LiquidationHeatmap,
+  price: number,
+  timeframe: Timeframe,
+  top = 6
+): LiquidityLevel[] {
+  if (heatmap.maxQty <= 0) return [];
+  return heatmap.buckets
+    .map(b => {
+      const below = b.price < price;
+      return { price: b.price, qty: below ? b.longQty : b.shortQty, below };
+    })
+    .filter(b => b.qty > 0)
+    .sort((a, b) => b.qty - a.qty)
+    .slice(0, top)
+    .map(b => ({
+      id: `liq_forced_${b.below ? 'long' : 'short'}_${b.price}`,
+      price: b.price,
+      time: heatmap.time,
+      type: b.below ? 'LOW' : 'HIGH',
+      status: 'ACTIVE',
+      strength: Math.round(30 + 60 * b.qty / heatmap.maxQty),
+      timeframe,
+      members: [],
+      origin: 'LIQUIDATION',
+    }));
+}
+
+// ─── HELPERS ──────────────────────────────────────────────────────────────────
+
+function addPositions(m: LiquidationModel, map: Map<number, number>, entry: number, qty: number, side: 'LONG' | 'SHORT'): void {
+  for (const tier of LEVERAGE_TIERS) {
+    const b = Math.floor(liquidationPrice(entry, tier.leverage, side) / m.bucketSize);
+    map.set(b, (map.get(b) ?? 0) + qty * tier.weight);
+  }
+}
+
+function bucketMid(m: LiquidationModel, b: number): number {
+  return (b + 0.5) * m.bucketSize;
+}
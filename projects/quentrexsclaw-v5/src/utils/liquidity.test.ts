@@ -0,0 +1,149 @@
+import type { Candle, LiquidityLevel, SwingPoint } from '../types';
+import {
+  detectLiquiditySweeps, createLiquidityLevel, findLiquidityPool, joinLiquidityPool, poolLabel,
+  updateSweep, isRaid, sweepLabel, SWEEP_RECLAIM_BARS,
+  agedStrength, trackLevel, ageTrackedLevel, updateTrackedLevel, isLevelLive, SWEPT_LEVEL_KEEP_BARS,
+} from './liquidity';
+import { bars } from './testCandles';
+
+const swingAt = (index: number, price: number, type: 'HIGH' | 'LOW' = 'HIGH'): SwingPoint => ({
+  index, time: index * 900000, price, type, status: 'CONFIRMED',
+});
+
+const highs = (levels: LiquidityLevel[]) => levels.filter(l => l.type === 'HIGH');
+
+// ─── EQUAL HIGHS / EQUAL LOWS ─────────────────────────────────────────────────
+
+describe('equal highs / lows', () => {
+  // Two swing highs at 105 and `second`, a pullback between and after
+  const doubleTop = (second: number) => bars([
+    [100, 100.5, 99.5, 100.2], [100.2, 101, 99.8, 100.8], [100.8, 105, 100.5, 104], [104, 104.2, 102, 102.5],
+    [102.5, 102.8, 101, 101.5], [101.5, 103, 101.2, 102.8], [102.8, second, 102.5, 104], [104, 104.1, 102, 102.3],
+    [102.3, 102.6, 101, 101.4], [101.4, 101.8, 100.8, 101],
+  ]);
+
+  it('pools a second high within tolerance instead of sweeping the first', () => {
+    const [pool] = highs(detectLiquiditySweeps(doubleTop(105.02), '15m', 2, 2));
+    expect(pool.members.map(m => m.index)).toEqual([2, 6]);
+    expect(pool).toMatchObject({ price: 105.02, status: 'ACTIVE' });
+    expect(pool.sweep).toBeUndefined();
+    expect(poolLabel(pool)).toBe('EQH');
+  });
+
+  it('keeps a clearly higher high separate and sweeps the first', () => {
+    const levels = highs(detectLiquiditySweeps(doubleTop(106), '15m', 2, 2));
+    expect(levels.map(l => [l.price, l.status])).toEqual([[105, 'SWEPT'], [106, 'ACTIVE']]);
+    expect(levels.every(l => poolLabel(l) === null)).toBe(true);
+  });
+
+  it('joins the nearest level on the same side within tolerance', () => {
+    const a = createLiquidityLevel(swingAt(1, 100), '15m');
+    const b = createLiquidityLevel(swingAt(2, 100.3), '15m');
+    const low = createLiquidityLevel(swingAt(3, 100.25, 'LOW'), '15m');
+    expect(findLiquidityPool([a, b, low], swingAt(9, 100.2), 0.5)).toBe(b);
+    expect(findLiquidityPool([a, b, low], swingAt(9, 101), 0.5)).toBeUndefined();
+  });
+
+  it('skips a level swept before the new swing', () => {
+    const a = { ...createLiquidityLevel(swingAt(1, 100), '15m'), status: 'SWEPT' as const, sweepTime: 5 * 900000 };
+    expect(findLiquidityPool([a], swingAt(9, 100.1), 0.5)).toBeUndefined();
+    expect(findLiquidityPool([a], swingAt(5, 100.1), 0.5)).toBe(a); // swept by the swing's own candle
+  });
+
+  it('moves the pool to its most extreme member and reactivates it', () => {
+    const a = { ...createLiquidityLevel(swingAt(1, 100, 'LOW'), '15m'), status: 'SWEPT' as const, sweepTime: 5 * 900000 };
+    joinLiquidityPool(a, swingAt(5, 99.9, 'LOW'));
+    expect(a).toMatchObject({ price: 99.9, status: 'ACTIVE', sweepTime: undefined });
+    expect(poolLabel(a)).toBe('EQL');
+  });
+});
+
+// ─── SWEEP QUALITY ────────────────────────────────────────────────────────────
+
+describe('sweep quality', () => {
+  /** Candle i against a high at 100: wick to `high`, close at `close` */
+  const probe = (i: number, high: number, close: number): Candle =>
+    ({ time: i * 900000, open: close, high, low: Math.min(close, high) - 0.2, close, volume: 100 });
+  const level = () => createLiquidityLevel(swingAt(0, 100), '15m');
+
+  it('settles a wick through that closes back inside as a raid', () => {
+    const l = level();
+    expect(updateSweep(l, probe(1, 99.9, 99.5), 1)).toBe(false);
+    expect(updateSweep(l, probe(2, 100.5, 99.8), 1)).toBe(true);
+    expect(l).toMatchObject({ status: 'SWEPT', sweepTime: 2 * 900000 });
+    expect(l.sweep).toMatchObject({ kind: 'WICK_RAID', settled: true, extreme: 100.5, depthAtr: 0.5, barsBeyond: 0 });
+    expect(isRaid(l)).toBe(true);
+    expect(sweepLabel(l.sweep!)).toBe('wick raid 0.5 ATR');
+  });
+
+  it('reclaims a close-through that closes back inside in time', () => {
+    const l = level();
+    expect(updateSweep(l, probe(1, 100.4, 100.2), 1)).toBe(false);
+    expect(sweepLabel(l.sweep!)).toBe('close-through 0.4 ATR · 1 bar');
+    expect(updateSweep(l, probe(2, 100.6, 99.9), 2)).toBe(true);
+    expect(l.sweep).toMatchObject({ kind: 'RECLAIMED', settled: true, extreme: 100.6, reclaimTime: 2 * 900000 });
+    expect(l.sweep!.depthAtr).toBeCloseTo(0.6); // in the sweep candle's ATR
+    expect(isRaid(l, 900000)).toBe(false);
+    expect(isRaid(l)).toBe(true);
+  });
+
+  it('settles as a run after SWEEP_RECLAIM_BARS more closes beyond', () => {
+    const l = level();
+    for (let i = 1; i <= SWEEP_RECLAIM_BARS; i++) expect(updateSweep(l, probe(i, 100.5, 100.3), 1)).toBe(false);
+    expect(updateSweep(l, probe(SWEEP_RECLAIM_BARS + 1, 100.5, 100.3), 1)).toBe(true);
+    expect(l.sweep).toMatchObject({ kind: 'RUN', settled: true, barsBeyond: SWEEP_RECLAIM_BARS + 1 });
+    expect(isRaid(l)).toBe(false);
+    expect(sweepLabel(l.sweep!)).toBe('run 0.5 ATR · 4 bars');
+  });
+
+  it('keeps extending a settled run until the first close back inside', () => {
+    const l = level();
+    for (let i = 1; i <= SWEEP_RECLAIM_BARS + 1; i++) updateSweep(l, probe(i, 100.5, 100.3), 1);
+    updateSweep(l, probe(5, 103, 102.5), 1);
+    expect(l.sweep).toMatchObject({ kind: 'RUN', extreme: 103, depthAtr: 3, barsBeyond: 5 });
+    updateSweep(l, probe(6, 102.6, 99.5), 1);
+    updateSweep(l, probe(7, 110, 109), 1);
+    expect(l.sweep).toMatchObject({ kind: 'RUN', extreme: 103, barsBeyond: 5, returnTime: 6 * 900000 });
+    expect(l.sweep!.reclaimTime).toBeUndefined();
+  });
+});
+
+// ─── AGEING / PRUNING ─────────────────────────────────────────────────────────
+
+describe('level ageing', () => {
+  it('halves strength per half-life of bars and of ATRs travelled', () => {
+    expect(agedStrength(80, 96, 0, '15m')).toBe(40);
+    expect(agedStrength(80, 0, 20, '15m')).toBe(40);
+    expect(agedStrength(80, 96, 20, '15m')).toBe(20);
+    expect(agedStrength(150, 0, 0, '15m')).toBe(100);
+  });
+
+  it('stretches both half-lives over a longer horizon', () => {
+    expect(agedStrength(80, 7 * 96, 0, '15m', 7)).toBe(40);
+    expect(agedStrength(80, 0, 40, '15m', 4)).toBe(40); // travel grows with √horizon
+  });
+
+  it('prunes an unswept level once it decays below the floor', () => {
+    const t = trackLevel(createLiquidityLevel(swingAt(0, 100), '15m'), 0, 40);
+    ageTrackedLevel(t, 192, 1, '15m');
+    expect(t.level.strength).toBe(10);
+    expect(isLevelLive(t, 192)).toBe(true);
+    ageTrackedLevel(t, 288, 1, '15m');
+    expect(isLevelLive(t, 288)).toBe(false);
+    t.far = 80;
+    ageTrackedLevel(t, 0, 1, '15m');
+    expect(t.level.strength).toBe(20);
+  });
+
+  it('freezes strength at the sweep and keeps the level for a while after', () => {
+    const candles = bars([[99, 99.5, 98.5, 99], [99.5, 100.5, 99, 99.6], [99.6, 99.8, 99, 99.2]]);
+    const t = trackLevel(createLiquidityLevel(swingAt(0, 100), '15m'), 0, 60);
+    expect(updateTrackedLevel(t, candles, 1, [1, 1, 1], '15m')).toBe(true);
+    expect(t.sweepIndex).toBe(1);
+    const frozen = t.level.strength;
+    updateTrackedLevel(t, candles, 2, [1, 1, 1], '15m');
+    expect(t.level.strength).toBe(frozen);
+    expect(isLevelLive(t, 1 + SWEPT_LEVEL_KEEP_BARS)).toBe(true);
+    expect(isLevelLive(t, 2 + SWEPT_LEVEL_KEEP_BARS)).toBe(false);
+  });
+});
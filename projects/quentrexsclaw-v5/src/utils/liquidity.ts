@@ -4,8 +4,9 @@
  * Equivalent to the Pine Script swing sweep logic.
  */
 
-import type { Candle, LiquidityLevel, SwingPoint, Timeframe } from '../types';
+import type { Candle, LiquidityLevel, SweepQuality, SwingPoint, Timeframe } from '../types';
 import { detectSwings } from './ict';
+import { wilderATR } from './volatility';
 
 // ─── SWEEP DETECTION ──────────────────────────────────────────────────────────
 
@@ -13,9 +14,16 @@ import { detectSwings } from './ict';
  * Core sweep detection: finds all swing highs/lows and marks them as swept
  * once price exceeds the level (even intrabar on wicks).
  *
- * A sweep is confirmed when:
- * 1. Price wicks beyond the level (partial sweep — weak confirmation)
- * 2. Price closes beyond the level (full sweep — strong confirmation)
+ * Swings within EQ_TOLERANCE_ATR × ATR of an unswept level of the same side are pooled
+ * into it (equal highs / equal lows) instead of standing alone.
+ *
+ * Each sweep is classified (level.sweep):
+ * 1. Wick beyond, close back inside → WICK_RAID
+ * 2. Close beyond, close back inside within SWEEP_RECLAIM_BARS → RECLAIMED
+ * 3. Close beyond and stays beyond → RUN (a breakout, not reversal fuel)
+ *
+ * Strength ages (see agedStrength) and stale levels are pruned, so the result
+ * holds only the levels still live at the last candle.
  */
 export function detectLiquiditySweeps(
   candles: Candle[],
@@ -24,58 +32,291 @@ export function detectLiquiditySweeps(
   rightLen = 10
 ): LiquidityLevel[] {
   const swings = detectSwings(candles, leftLen, rightLen);
-  const levels: LiquidityLevel[] = [];
-
-  for (const swing of swings) {
-    const id = `liq_${timeframe}_${swing.type}_${swing.time}`;
-
-    // Count how many times price approached this level before sweep
-    // (more tests = more liquidity = stronger magnet)
-    let testCount = 0;
-    const swingIdx = swing.index;
-
-    for (let i = swingIdx + 1; i < candles.length; i++) {
-      const c = candles[i];
-      const approach = swing.type === 'HIGH'
-        ? c.high / swing.price        // how close to the high
-        : swing.price / c.low;        // how close to the low
-      if (approach > 0.997 && approach < 1.003) testCount++;
+  const atr = wilderATR(candles);
+  let tracked: TrackedLevel[] = [];
+
+  // Bar by bar, the way IctEngine sees it: a swing only exists once confirmed,
+  // so it can only pool into levels that are still live at that bar
+  let s = 0;
+  for (let n = 0; n < candles.length; n++) {
+    tracked = tracked.filter(t => updateTrackedLevel(t, candles, n, atr, timeframe));
+    for (; s < swings.length && swings[s].index + rightLen <= n; s++) {
+      addLiquiditySwing(tracked, swings[s], candles, n, atr, timeframe);
     }
+    tracked = tracked.filter(t => isLevelLive(t, n));
+  }
+
+  return tracked.map(t => t.level);
+}
+
+export function createLiquidityLevel(
+  swing: SwingPoint,
+  timeframe: Timeframe,
+  testCount = 0
+): LiquidityLevel {
+  return {
+    id: `liq_${timeframe}_${swing.type}_${swing.time}`,
+    price: swing.price,
+    time: swing.time,
+    type: swing.type,
+    status: 'ACTIVE',
+    strength: levelStrength(testCount, 1),
+    timeframe,
+    members: [swing],
+  };
+}
+
+/** Base strength before ageing: each test adds 15, each extra pooled swing adds 20 */
+export function levelStrength(testCount: number, memberCount: number): number {
+  return Math.min(100, 30 + testCount * 15 + (memberCount - 1) * 20);
+}
+
+/** Candle came within 0.3% of the swing price */
+export function isLevelTest(swing: Pick<SwingPoint, 'price' | 'type'>, c: Candle): boolean {
+  const approach = swing.type === 'HIGH'
+    ? c.high / swing.price        // how close to the high
+    : swing.price / c.low;        // how close to the low
+  return approach > 0.997 && approach < 1.003;
+}
 
-    const level: LiquidityLevel = {
-      id,
-      price: swing.price,
-      time: swing.time,
-      type: swing.type,
-      status: 'ACTIVE',
-      strength: Math.min(100, 30 + testCount * 15),
-      timeframe,
+/** Bars after a close-through in which a close back inside still counts as a reclaim */
+export const SWEEP_RECLAIM_BARS = 3;
+
+/**
+ * Apply one candle to a level's sweep state, then to the sweep's classification
+ * until it settles. A settled RUN keeps extending its depth and bars beyond until
+ * price first closes back inside. `atr` is the ATR at this candle; depth is
+ * measured in the sweep candle's ATR. Returns true once swept and settled.
+ */
+export function updateSweep(level: LiquidityLevel, c: Candle, atr = 0): boolean {
+  const high = level.type === 'HIGH';
+  if (level.status === 'ACTIVE') {
+    if (high ? c.high <= level.price : c.low >= level.price) return false;
+    const beyond = high ? c.close > level.price : c.close < level.price;
+    const extreme = high ? c.high : c.low;
+    level.status = 'SWEPT';
+    level.sweepTime = c.time;
+    level.sweepCandle = c;
+    level.sweep = {
+      kind: beyond ? 'RUN' : 'WICK_RAID',
+      settled: !beyond,
+      extreme,
+      depthAtr: atr > 0 ? Math.abs(extreme - level.price) / atr : 0,
+      barsBeyond: beyond ? 1 : 0,
+      atr,
     };
+    return !beyond;
+  }
 
-    // Check if swept in subsequent candles
-    for (let i = swingIdx + 1; i < candles.length; i++) {
-      const c = candles[i];
-      if (swing.type === 'HIGH' && c.high > swing.price) {
-        level.status = 'SWEPT';
-        level.sweepTime = c.time;
-        level.sweepCandle = c;
-        break;
-      }
-      if (swing.type === 'LOW' && c.low < swing.price) {
-        level.status = 'SWEPT';
-        level.sweepTime = c.time;
-        level.sweepCandle = c;
-        break;
-      }
-    }
+  const q = level.sweep;
+  if (!q || q.kind !== 'RUN' || q.returnTime !== undefined) return true;
+  q.extreme = high ? Math.max(q.extreme, c.high) : Math.min(q.extreme, c.low);
+  if (q.atr > 0) q.depthAtr = Math.abs(q.extreme - level.price) / q.atr;
+  const inside = high ? c.close <= level.price : c.close >= level.price;
+  if (q.settled) {
+    if (inside) q.returnTime = c.time;
+    else q.barsBeyond++;
+    return true;
+  }
+  if (inside) {
+    q.kind = 'RECLAIMED';
+    q.reclaimTime = c.time;
+    q.settled = true;
+  } else if (++q.barsBeyond > SWEEP_RECLAIM_BARS) {
+    q.settled = true;
+  }
+  return q.settled;
+}
+
+/**
+ * Genuine raid — a wick raid, or a close-through reclaimed by `asOf`.
+ * Only raids fuel a reversal; a RUN is liquidity taken on the way through.
+ */
+export function isRaid(level: LiquidityLevel, asOf = Infinity): boolean {
+  const q = level.sweep;
+  if (!q) return false;
+  return q.kind === 'WICK_RAID' || (q.kind === 'RECLAIMED' && (q.reclaimTime ?? Infinity) <= asOf);
+}
+
+/** Short dashboard / agent label, e.g. "wick raid 0.4 ATR" or "run 1.2 ATR · 4 bars" */
+export function sweepLabel(q: SweepQuality): string {
+  const kind = q.kind === 'WICK_RAID' ? 'wick raid' : q.kind === 'RECLAIMED' ? 'reclaimed' : q.settled ? 'run' : 'close-through';
+  return `${kind} ${q.depthAtr.toFixed(1)} ATR${q.barsBeyond ? ` · ${q.barsBeyond} bar${q.barsBeyond > 1 ? 's' : ''}` : ''}`;
+}
+
+// ─── AGEING / PRUNING ─────────────────────────────────────────────────────────
+
+/** Bars for an unswept level's strength to halve — lower timeframes go stale sooner in wall time */
+export const LEVEL_HALF_LIFE_BARS: Record<Timeframe, number> = {
+  '1m': 120, '3m': 80, '5m': 96, '15m': 96, '30m': 96, '1h': 120, '4h': 90, '1d': 60, '1w': 52,
+};
+/** Price travelling this many ATRs away from a level halves its strength */
+export const LEVEL_TRAVEL_HALF_ATR = 20;
+/** Unswept levels that decay below this are pruned */
+export const LEVEL_PRUNE_STRENGTH = 10;
+/** Swept levels are kept this many bars after the sweep (setups, recent-sweep reads) */
+export const SWEPT_LEVEL_KEEP_BARS = 100;
+
+/** A level plus the state its strength is aged from */
+export interface TrackedLevel {
+  level: LiquidityLevel;
+  formedIndex: number;          // candle it printed on — first member / range extreme
+  baseStrength: number | null;  // fixed base (session levels); null = from tests + members
+  testCount: number;            // tests before the sweep
+  far: number;                  // furthest price reached away from the level while unswept
+  horizon: number;              // half-life multiplier — 1 for swings, longer for calendar levels
+  sweepIndex?: number;
+}
+
+export function trackLevel(
+  level: LiquidityLevel,
+  formedIndex: number,
+  baseStrength: number | null = null,
+  horizon = 1
+): TrackedLevel {
+  return { level, formedIndex, baseStrength, testCount: 0, far: level.price, horizon, sweepIndex: undefined };
+}
+
+/**
+ * Base strength halved every LEVEL_HALF_LIFE_BARS × horizon bars and every
+ * LEVEL_TRAVEL_HALF_ATR × √horizon ATRs travelled (range grows with √time).
+ */
+export function agedStrength(base: number, ageBars: number, travelAtr: number, timeframe: Timeframe, horizon = 1): number {
+  const age = Math.pow(0.5, ageBars / (LEVEL_HALF_LIFE_BARS[timeframe] * horizon));
+  const travel = Math.pow(0.5, travelAtr / (LEVEL_TRAVEL_HALF_ATR * Math.sqrt(horizon)));
+  return Math.round(Math.min(100, base) * age * travel);
+}
+
+/** Re-age strength as of candle n */
+export function ageTrackedLevel(t: TrackedLevel, n: number, atr: number, timeframe: Timeframe): void {
+  const base = t.baseStrength ?? levelStrength(t.testCount, t.level.members.length);
+  const travelAtr = atr > 0 ? Math.abs(t.level.price - t.far) / atr : 0;
+  t.level.strength = agedStrength(base, n - t.formedIndex, travelAtr, timeframe, t.horizon);
+}
+
+/**
+ * Apply candle n to a tracked level: travel, sweep state, a test if the level
+ * survives the candle unswept, then re-age. Strength freezes at the sweep, so a
+ * sweep is scored as the level stood when it was taken.
+ * Returns false once the level is stale and should be pruned.
+ */
+export function updateTrackedLevel(
+  t: TrackedLevel,
+  candles: Candle[],
+  n: number,
+  atr: number[],
+  timeframe: Timeframe
+): boolean {
+  const { level } = t;
+  const c = candles[n];
+  if (level.status === 'ACTIVE') {
+    t.far = level.type === 'HIGH' ? Math.min(t.far, c.low) : Math.max(t.far, c.high);
+    updateSweep(level, c, atr[n]);
+    if (level.sweepTime === c.time) t.sweepIndex = n;
+    else if (t.baseStrength === null && isLevelTest(level, c) && !level.members.some(m => m.index === n)) t.testCount++;
+    ageTrackedLevel(t, n, atr[n], timeframe);
+  } else {
+    updateSweep(level, c, atr[n]);
+  }
+  return isLevelLive(t, n);
+}
+
+/** Unswept and still above LEVEL_PRUNE_STRENGTH, or swept within SWEPT_LEVEL_KEEP_BARS (or not yet settled) */
+export function isLevelLive(t: TrackedLevel, n: number): boolean {
+  if (t.level.status === 'ACTIVE') return t.level.strength >= LEVEL_PRUNE_STRENGTH;
+  return !t.level.sweep?.settled || n - (t.sweepIndex ?? n) <= SWEPT_LEVEL_KEEP_BARS;
+}
+
+/**
+ * Add a swing confirmed on candle n: join an equal-high/low pool or start a new
+ * level, then replay it up to n. Returns the pool it joined, if any — that pool's
+ * earlier "sweep" was this swing forming and has been retracted.
+ */
+export function addLiquiditySwing(
+  tracked: TrackedLevel[],
+  swing: SwingPoint,
+  candles: Candle[],
+  n: number,
+  atr: number[],
+  timeframe: Timeframe
+): LiquidityLevel | null {
+  const pool = findLiquidityPool(tracked.map(t => t.level), swing, atr[swing.index] * EQ_TOLERANCE_ATR);
+  const existing = pool ? tracked.find(t => t.level === pool) : undefined;
+  let t: TrackedLevel;
+  if (pool && existing) {
+    joinLiquidityPool(pool, swing);
+    t = Object.assign(existing, trackLevel(pool, pool.members[0].index));
+  } else {
+    t = trackLevel(createLiquidityLevel(swing, timeframe), swing.index);
+    tracked.push(t);
+  }
+  for (let j = t.formedIndex + 1; j <= n; j++) updateTrackedLevel(t, candles, j, atr, timeframe);
+  return existing ? existing.level : null;
+}
 
-    levels.push(level);
+// ─── EQUAL HIGHS / EQUAL LOWS ─────────────────────────────────────────────────
+
+/** Pool tolerance as a fraction of Wilder ATR at the new swing */
+export const EQ_TOLERANCE_ATR = 0.1;
+
+/**
+ * Pool a new swing can join: same side, within tolerance, and not swept
+ * before the swing's own candle. A "sweep" printed by that candle is the
+ * equal high/low itself and is undone by `joinLiquidityPool`.
+ */
+export function findLiquidityPool(
+  levels: LiquidityLevel[],
+  swing: SwingPoint,
+  tolerance: number
+): LiquidityLevel | undefined {
+  let best: LiquidityLevel | undefined;
+  for (const l of levels) {
+    if (l.type !== swing.type || !l.members.length) continue;
+    if (l.status === 'SWEPT' && (l.sweepTime ?? 0) < swing.time) continue;
+    const dist = Math.abs(l.price - swing.price);
+    if (dist <= tolerance && (!best || dist < Math.abs(best.price - swing.price))) best = l;
   }
+  return best;
+}
 
-  return levels;
+/** Add a swing to a pool — the pool's price moves to the most extreme member */
+export function joinLiquidityPool(level: LiquidityLevel, swing: SwingPoint): void {
+  level.members.push(swing);
+  level.price = swing.type === 'HIGH'
+    ? Math.max(level.price, swing.price)
+    : Math.min(level.price, swing.price);
+  level.status = 'ACTIVE';
+  level.sweepTime = undefined;
+  level.sweepCandle = undefined;
+  level.sweep = undefined;
 }
 
-// ─── MULTI-TIMEFRAME SWEEP AGGREGATOR ─────────────────────────────────────────
+/** Level built on a swing that hasn't had its right-side bars yet */
+export function isProvisional(level: LiquidityLevel): boolean {
+  return level.members.some(m => m.status === 'PROVISIONAL');
+}
+
+export function isPool(level: LiquidityLevel): boolean {
+  return level.members.length >= 2;
+}
+
+/** 'EQH' / 'EQL' for pools, null for isolated swings */
+export function poolLabel(level: LiquidityLevel): 'EQH' | 'EQL' | null {
+  if (!isPool(level)) return null;
+  return level.type === 'HIGH' ? 'EQH' : 'EQL';
+}
+
+/** Tests of the level in candles[from..upTo], ignoring the member swings' own candles */
+export function countLevelTests(candles: Candle[], level: LiquidityLevel, from: number, upTo: number): number {
+  const memberIdx = new Set(level.members.map(m => m.index));
+  let count = 0;
+  for (let i = from; i <= upTo; i++) {
+    if (!memberIdx.has(i) && isLevelTest(level, candles[i])) count++;
+  }
+  return count;
+}
+
+// ─── MULTI-TIMEFRAME CONFIG ───────────────────────────────────────────────────
 
 export const MTF_CONFIGS: Record<Timeframe, { parent: Timeframe; leftLen: number; rightLen: number }> = {
   '1m':  { parent: '15m',  leftLen: 5,  rightLen: 5  },
@@ -89,41 +330,12 @@ export const MTF_CONFIGS: Record<Timeframe, { parent: Timeframe; leftLen: number
   '1w':  { parent: '1w',   leftLen: 20, rightLen: 20 },
 };
 
-/**
- * Identifies HIGH-PROBABILITY sweeps = same swing swept on BOTH timeframes.
- * e.g., a 15m swing that is ALSO a 4h swing = very high liquidity concentration.
- */
-export function findConfluenceSweeps(
-  htfLevels: LiquidityLevel[],
-  ltfLevels: LiquidityLevel[],
-  priceTolerancePct = 0.15
-): Array<{ htf: LiquidityLevel; ltf: LiquidityLevel; confluenceScore: number }> {
-  const results: Array<{ htf: LiquidityLevel; ltf: LiquidityLevel; confluenceScore: number }> = [];
-
-  for (const htf of htfLevels) {
-    for (const ltf of ltfLevels) {
-      if (htf.type !== ltf.type) continue;
-      const priceDiff = Math.abs(htf.price - ltf.price) / htf.price * 100;
-      if (priceDiff <= priceTolerancePct) {
-        const confluenceScore = Math.round(
-          (htf.strength * 0.6 + ltf.strength * 0.4) *
-          (1 - priceDiff / priceTolerancePct) * // closer = higher score
-          (htf.status === 'ACTIVE' ? 1.2 : 0.8) // active > swept
-        );
-        results.push({ htf, ltf, confluenceScore: Math.min(100, confluenceScore) });
-      }
-    }
-  }
-
-  return results.sort((a, b) => b.confluenceScore - a.confluenceScore);
-}
-
 // ─── SWEEP + FVG SETUP DETECTOR ───────────────────────────────────────────────
 
 /**
  * THE CORE ICT SETUP: Liquidity Sweep followed by displacement into FVG.
  *
- * 1. Price sweeps a swing high/low (grabs liquidity)
+ * 1. Price raids a swing high/low (grabs liquidity) — runs through it don't count
  * 2. Displacement candle (large body, closes strong)
  * 3. FVG forms in the displacement
  * 4. Entry: FVG 50% (midpoint)
@@ -147,6 +359,7 @@ export function detectSweepFVGSetups(
   fvgMinSizePct = 0.05
 ): SweepFVGSetup[] {
   const setups: SweepFVGSetup[] = [];
+  const atr = wilderATR(candles);
   const sweptLevels = levels.filter(l => l.status === 'SWEPT' && l.sweepCandle);
 
   for (const level of sweptLevels) {
@@ -155,100 +368,103 @@ export function detectSweepFVGSetups(
 
     // Look for displacement in 1-5 candles after sweep
     for (let i = sweepCandleIdx + 1; i < Math.min(sweepCandleIdx + 6, candles.length - 1); i++) {
-      const prev = candles[i - 1];
-      const curr = candles[i];
-      const next = candles[i + 1];
-
-      if (level.type === 'HIGH') {
-        // After sweeping a HIGH, we want bearish displacement
-        const bearishBody = curr.open - curr.close;
-        const isDisplacement = bearishBody > 0 && bearishBody / curr.open > 0.003;
-
-        // Bearish FVG: prev.low > next.high
-        if (isDisplacement && next.high < prev.low) {
-          const fvgTop    = prev.low;
-          const fvgBottom = next.high;
-          const fvgSize   = (fvgTop - fvgBottom) / fvgBottom * 100;
-
-          if (fvgSize >= fvgMinSizePct) {
-            setups.push({
-              sweep: level,
-              displacementCandle: curr,
-              fvgEntry: (fvgTop + fvgBottom) / 2,
-              fvgTop, fvgBottom,
-              stopLoss: level.price * 1.002, // just above sweep
-              direction: 'SHORT',
-              quality: calcSetupQuality(level, bearishBody / curr.open, fvgSize),
-            });
-          }
-        }
-      } else {
-        // After sweeping a LOW, we want bullish displacement
-        const bullishBody = curr.close - curr.open;
-        const isDisplacement = bullishBody > 0 && bullishBody / curr.open > 0.003;
-
-        // Bullish FVG: prev.high < next.low
-        if (isDisplacement && next.low > prev.high) {
-          const fvgTop    = next.low;
-          const fvgBottom = prev.high;
-          const fvgSize   = (fvgTop - fvgBottom) / fvgBottom * 100;
-
-          if (fvgSize >= fvgMinSizePct) {
-            setups.push({
-              sweep: level,
-              displacementCandle: curr,
-              fvgEntry: (fvgTop + fvgBottom) / 2,
-              fvgTop, fvgBottom,
-              stopLoss: level.price * 0.998, // just below sweep
-              direction: 'LONG',
-              quality: calcSetupQuality(level, bullishBody / curr.open, fvgSize),
-            });
-          }
-        }
-      }
+      const setup = detectSweepFVGAt(candles, level, i, atr[i - 1], fvgMinSizePct);
+      if (setup) setups.push(setup);
     }
   }
 
   return setups.sort((a, b) => b.quality - a.quality);
 }
 
+/** Displacement body must be at least this many ATRs */
+export const DISPLACEMENT_ATR = 0.8;
+/** Stop sits this many ATRs beyond the swept level */
+export const SWEEP_STOP_ATR = 0.25;
+
+/**
+ * Test candles[i] as the displacement candle after a swept level (needs candles[i+1]).
+ * The sweep must be a raid by candles[i+1]'s close (see isRaid).
+ * `atr` is the ATR before the displacement candle (index i-1).
+ */
+export function detectSweepFVGAt(
+  candles: Candle[],
+  level: LiquidityLevel,
+  i: number,
+  atr: number,
+  fvgMinSizePct = 0.05
+): SweepFVGSetup | null {
+  const prev = candles[i - 1];
+  const curr = candles[i];
+  const next = candles[i + 1];
+  if (!isRaid(level, next.time)) return null; // reclaim must be known when the FVG is
+
+  if (level.type === 'HIGH') {
+    // After sweeping a HIGH, we want bearish displacement
+    const bearishBody = curr.open - curr.close;
+    const isDisplacement = bearishBody > 0 && bearishBody >= atr * DISPLACEMENT_ATR;
+
+    // Bearish FVG: prev.low > next.high
+    if (isDisplacement && next.high < prev.low) {
+      const fvgTop    = prev.low;
+      const fvgBottom = next.high;
+      const fvgSize   = (fvgTop - fvgBottom) / fvgBottom * 100;
+
+      if (fvgSize >= fvgMinSizePct) {
+        return {
+          sweep: level,
+          displacementCandle: curr,
+          fvgEntry: (fvgTop + fvgBottom) / 2,
+          fvgTop, fvgBottom,
+          stopLoss: level.price + atr * SWEEP_STOP_ATR, // just above sweep
+          direction: 'SHORT',
+          quality: calcSetupQuality(level, bearishBody / atr, fvgSize),
+        };
+      }
+    }
+  } else {
+    // After sweeping a LOW, we want bullish displacement
+    const bullishBody = curr.close - curr.open;
+    const isDisplacement = bullishBody > 0 && bullishBody >= atr * DISPLACEMENT_ATR;
+
+    // Bullish FVG: prev.high < next.low
+    if (isDisplacement && next.low > prev.high) {
+      const fvgTop    = next.low;
+      const fvgBottom = prev.high;
+      const fvgSize   = (fvgTop - fvgBottom) / fvgBottom * 100;
+
+      if (fvgSize >= fvgMinSizePct) {
+        return {
+          sweep: level,
+          displacementCandle: curr,
+          fvgEntry: (fvgTop + fvgBottom) / 2,
+          fvgTop, fvgBottom,
+          stopLoss: level.price - atr * SWEEP_STOP_ATR, // just below sweep
+          direction: 'LONG',
+          quality: calcSetupQuality(level, bullishBody / atr, fvgSize),
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
 function calcSetupQuality(
   level: LiquidityLevel,
-  displacementSize: number,
+  displacementAtr: number,
   fvgSize: number
 ): number {
   let score = level.strength * 0.4;
-  score += Math.min(30, displacementSize * 3000); // bigger displacement = better
+  score += Math.min(30, displacementAtr * 15);    // bigger displacement = better (2 ATR = max)
   score += Math.min(20, fvgSize * 40);            // bigger FVG = more room
   score += level.status === 'SWEPT' ? 10 : 0;
   return Math.min(100, Math.round(score));
 }
 
-// ─── LIQUIDITY MAGNET SCORING ──────────────────────────────────────────────────
+// ─── TIMEFRAME WEIGHT ─────────────────────────────────────────────────────────
 
-/**
- * Scores how "magnetic" the nearest liquidity level is.
- * Higher score = price more likely to sweep that level soon.
- * Based on: distance, strength (test count), age, timeframe weight.
- */
-export function scoreLiquidityMagnet(
-  levels: LiquidityLevel[],
-  currentPrice: number
-): { level: LiquidityLevel; magnetScore: number }[] {
-  const TF_WEIGHT: Record<Timeframe, number> = {
-    '1w': 1.0, '1d': 0.85, '4h': 0.7, '1h': 0.6,
-    '30m': 0.5, '15m': 0.45, '5m': 0.35, '3m': 0.3, '1m': 0.25,
-  };
-
-  return levels
-    .filter(l => l.status === 'ACTIVE')
-    .map(l => {
-      const distPct = Math.abs(l.price - currentPrice) / currentPrice * 100;
-      const distScore  = Math.max(0, 50 - distPct * 10); // closer = higher
-      const tfScore    = (TF_WEIGHT[l.timeframe] ?? 0.3) * 30;
-      const strScore   = l.strength * 0.2;
-      const magnetScore = Math.min(100, distScore + tfScore + strScore);
-      return { level: l, magnetScore };
-    })
-    .sort((a, b) => b.magnetScore - a.magnetScore);
-}
+/** Relative weight of a level / array by its timeframe */
+export const TIMEFRAME_WEIGHT: Record<Timeframe, number> = {
+  '1w': 1.0, '1d': 0.85, '4h': 0.7, '1h': 0.6,
+  '30m': 0.5, '15m': 0.45, '5m': 0.35, '3m': 0.3, '1m': 0.25,
+};
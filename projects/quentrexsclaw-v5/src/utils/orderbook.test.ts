@@ -0,0 +1,77 @@
+import type { OrderBook } from '../types';
+import {
+  mergeBooks, bookImbalance, createWallTracker, updateWallTracker, recentSpoofs, wallLevels,
+  WALL_MIN_REST_MS, WALL_OUT_OF_VIEW_MS,
+} from './orderbook';
+
+const BIDS = [99.9, 99.8, 99.7, 99.6, 99.5, 99.4];
+const ASKS = [100.1, 100.2, 100.3, 100.4, 100.5, 100.6];
+
+/** Book around 100 with 1 lot per level and a 10-lot bid wall at `wall` */
+function book(wall: number | null, bids = BIDS, symbol = 'BTCUSDT', timestamp = 0): OrderBook {
+  return {
+    symbol, timestamp,
+    bids: bids.map(price => ({ price, qty: price === wall ? 10 : 1 })),
+    asks: ASKS.map(price => ({ price, qty: 1 })),
+  };
+}
+
+describe('order book', () => {
+  it('overlays the live levels on the deep snapshot of the same symbol', () => {
+    const live = book(null, [99.9, 99.8]);
+    const merged = mergeBooks(book(null), live)!;
+    expect(merged.bids.map(l => l.price)).toEqual(BIDS);
+    expect(mergeBooks(book(null, BIDS, 'ETHUSDT'), live)).toBe(live);
+    expect(mergeBooks(null, live)).toBe(live);
+  });
+
+  it('weighs resting bids against asks near price', () => {
+    const imb = bookImbalance(book(99.5), 100, 0.5);
+    expect(imb).toMatchObject({ bidQty: 14, askQty: 5 }); // 99.5 – 100.5
+    expect(imb.ratio).toBeCloseTo(9 / 19);
+  });
+
+  describe('wall tracker', () => {
+    it('tracks an outsized cluster as one resting wall', () => {
+      const t = createWallTracker();
+      updateWallTracker(t, book(99.5), 100, 0);
+      updateWallTracker(t, book(99.5), 100, 5000);
+      expect(t.walls).toHaveLength(1);
+      expect(t.walls[0]).toMatchObject({ side: 'BID', price: 99.5, multiple: 10, firstSeen: 0, lastSeen: 5000, status: 'RESTING' });
+    });
+
+    it('ends a wall as FILLED, PULLED or SPOOFED', () => {
+      const ended = (wall: number, price: number) => {
+        const t = createWallTracker();
+        updateWallTracker(t, book(wall), 100, 0);
+        updateWallTracker(t, book(null), price, 5000);
+        expect(t.walls).toEqual([]);
+        return t;
+      };
+      expect(ended(99.5, 99.5).history[0]).toMatchObject({ status: 'FILLED', endTime: 5000 });
+      expect(ended(99.5, 100).history[0].status).toBe('PULLED');   // 0.5% away
+      const spoofed = ended(99.8, 100);                            // 0.2% away, 5s old
+      expect(spoofed.history[0].status).toBe('SPOOFED');
+      expect(recentSpoofs(spoofed, 5000)).toHaveLength(1);
+      expect(recentSpoofs(spoofed, 5001)).toEqual([]);
+    });
+
+    it('keeps a wall scrolled out of view until it expires', () => {
+      const t = createWallTracker();
+      const shallow = BIDS.slice(0, 4); // down to 99.6
+      updateWallTracker(t, book(99.5), 100, 0);
+      updateWallTracker(t, book(null, shallow), 100, WALL_OUT_OF_VIEW_MS);
+      expect(t.walls.map(w => w.price)).toEqual([99.5]);
+      updateWallTracker(t, book(null, shallow), 100, WALL_OUT_OF_VIEW_MS + 1);
+      expect(t.walls).toEqual([]);
+      expect(t.history).toEqual([]);
+    });
+
+    it('turns walls that have rested long enough into liquidity levels', () => {
+      const t = createWallTracker();
+      updateWallTracker(t, book(99.5), 100, 0);
+      expect(wallLevels(t.walls, '15m', WALL_MIN_REST_MS - 1)).toEqual([]);
+      expect(wallLevels(t.walls, '15m', WALL_MIN_REST_MS)).toMatchObject([{ price: 99.5, type: 'LOW', strength: 100, origin: 'BOOK' }]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * utils/orderbook.ts
+ * Order-book liquidity — resting walls, pulls / spoofs over time and the
+ * bid/ask imbalance near price. Walls that keep resting are turned into
+ * LiquidityLevels so they score next to swing and session levels.
+ */
+
+import type { BookImbalance, BookWall, LiquidityLevel, OrderBook, OrderBookLevel, Timeframe } from '../types';
+
+export const WALL_BUCKET_PCT = 0.05;     // cluster width, % of price
+export const WALL_MULTIPLE = 3;          // cluster qty vs the median cluster of its side
+export const WALL_MIN_REST_MS = 10000;   // must rest this long before it counts as liquidity
+export const SPOOF_MAX_MS = 30000;       // pulled within this of first appearing…
+export const SPOOF_NEAR_PCT = 0.3;       // …while price was within this % of it
+export const WALL_OUT_OF_VIEW_MS = 60000; // walls scrolled out of the book are dropped after this
+const WALL_HISTORY = 50;
+
+// ─── BOOK ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Deep REST snapshot (100 levels) overlaid with the live depth stream (20 levels):
+ * inside the live span the live levels win, beyond it the deep ones fill in.
+ * A deep snapshot of another symbol (still in flight at a pair switch) is ignored.
+ */
+export function mergeBooks(deep: OrderBook | null, live: OrderBook | null): OrderBook | null {
+  if (!deep || !live) return live ?? deep;
+  if (deep.symbol !== live.symbol) return live;
+  const liveBidFloor = Math.min(...live.bids.map(l => l.price));
+  const liveAskCeil = Math.max(...live.asks.map(l => l.price));
+  return {
+    bids: [...live.bids, ...deep.bids.filter(l => l.price < liveBidFloor)],
+    asks: [...live.asks, ...deep.asks.filter(l => l.price > liveAskCeil)],
+    symbol: live.symbol,
+    timestamp: live.timestamp,
+  };
+}
+
+/** Resting bid vs ask quantity within ±pctRange% of price */
+export function bookImbalance(book: OrderBook, price: number, pctRange = 0.5): BookImbalance {
+  const range = price * pctRange / 100;
+  const bidQty = book.bids.filter(l => l.price >= price - range).reduce((s, l) => s + l.qty, 0);
+  const askQty = book.asks.filter(l => l.price <= price + range).reduce((s, l) => s + l.qty, 0);
+  const total = bidQty + askQty;
+  return { bidQty, askQty, ratio: total > 0 ? (bidQty - askQty) / total : 0, pctRange };
+}
+
+interface BookCluster {
+  side: 'BID' | 'ASK';
+  price: number;          // qty-weighted
+  qty: number;
+  multiple: number;       // vs the side's median cluster
+}
+
+/** Levels grouped into WALL_BUCKET_PCT-wide price buckets, per side */
+export function bookClusters(book: OrderBook, price: number, bucketPct = WALL_BUCKET_PCT): BookCluster[] {
+  const width = price * bucketPct / 100;
+  const out: BookCluster[] = [];
+  if (width <= 0) return out;
+
+  const sides: Array<['BID' | 'ASK', OrderBookLevel[]]> = [['BID', book.bids], ['ASK', book.asks]];
+  for (const [side, levels] of sides) {
+    const buckets = new Map<number, { qty: number; pq: number }>();
+    for (const l of levels) {
+      const key = Math.floor(l.price / width);
+      const b = buckets.get(key) ?? { qty: 0, pq: 0 };
+      b.qty += l.qty; b.pq += l.price * l.qty;
+      buckets.set(key, b);
+    }
+    const clusters = Array.from(buckets.values()).filter(b => b.qty > 0);
+    const sorted = clusters.map(b => b.qty).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+    for (const b of clusters) {
+      out.push({ side, price: b.pq / b.qty, qty: b.qty, multiple: median > 0 ? b.qty / median : 0 });
+    }
+  }
+  return out;
+}
+
+// ─── WALL TRACKER ─────────────────────────────────────────────────────────────
+
+export interface WallTracker {
+  walls: BookWall[];       // RESTING
+  history: BookWall[];     // ended walls, newest last
+}
+
+export function createWallTracker(): WallTracker {
+  return { walls: [], history: [] };
+}
+
+/**
+ * Feed one book snapshot. A cluster ≥ WALL_MULTIPLE× its side's median is a wall;
+ * a tracked wall stays RESTING while its bucket holds ≥ half its peak. When it
+ * goes, it is FILLED if price traded through it, SPOOFED if it was young and price
+ * was close, PULLED otherwise. Walls outside the visible depth are left alone
+ * until they have been out of view for WALL_OUT_OF_VIEW_MS, then dropped untracked.
+ */
+export function updateWallTracker(t: WallTracker, book: OrderBook, price: number, time: number): void {
+  if (book.bids.length === 0 || book.asks.length === 0) return;
+  const clusters = bookClusters(book, price);
+  const tol = price * WALL_BUCKET_PCT / 100;
+  const near = (w: BookWall, c: BookCluster) => c.side === w.side && Math.abs(c.price - w.price) <= tol;
+  const seen = new Set<BookCluster>();
+
+  // Existing walls
+  const lowestBid = Math.min(...book.bids.map(l => l.price));
+  const highestAsk = Math.max(...book.asks.map(l => l.price));
+  const resting: BookWall[] = [];
+  for (const w of t.walls) {
+    const c = clusters.find(x => !seen.has(x) && near(w, x) && x.qty >= w.peakQty * 0.5);
+    if (c) {
+      seen.add(c);
+      w.price = c.price; w.qty = c.qty; w.multiple = c.multiple; w.lastSeen = time;
+      w.peakQty = Math.max(w.peakQty, c.qty);
+      resting.push(w);
+      continue;
+    }
+    const inView = w.side === 'BID' ? w.price >= lowestBid : w.price <= highestAsk;
+    const traded = w.side === 'BID' ? price <= w.price : price >= w.price;
+    if (!inView && !traded) {
+      if (time - w.lastSeen <= WALL_OUT_OF_VIEW_MS) resting.push(w); // scrolled out of the book, not gone
+      continue;
+    }
+    const spoofed = time - w.firstSeen < SPOOF_MAX_MS && Math.abs(price - w.price) / price * 100 < SPOOF_NEAR_PCT;
+    w.status = traded ? 'FILLED' : spoofed ? 'SPOOFED' : 'PULLED';
+    w.endTime = time;
+    t.history.push(w);
+  }
+
+  // New walls
+  for (const c of clusters) {
+    if (seen.has(c) || c.multiple < WALL_MULTIPLE) continue;
+    resting.push({
+      id: `wall_${c.side}_${time}_${c.price}`,
+      side: c.side, price: c.price, qty: c.qty, peakQty: c.qty, multiple: c.multiple,
+      firstSeen: time, lastSeen: time, status: 'RESTING',
+    });
+  }
+
+  t.walls = resting;
+  t.history = t.history.slice(-WALL_HISTORY);
+}
+
+/** Spoofed walls among the ended ones since `since` */
+export function recentSpoofs(t: WallTracker, since: number): BookWall[] {
+  return t.history.filter(w => w.status === 'SPOOFED' && (w.endTime ?? 0) >= since);
+}
+
+/**
+ * Walls that have rested at least `minRestMs` as liquidity levels:
+ * ask walls above price are HIGH-side liquidity, bid walls below are LOW-side.
+ */
+export function wallLevels(
+  walls: BookWall[],
+  timeframe: Timeframe,
+  now: number,
+  minRestMs = WALL_MIN_REST_MS
+): LiquidityLevel[] {
+  return walls
+    .filter(w => w.status === 'RESTING' && now - w.firstSeen >= minRestMs)
+    .map(w => ({
+      id: `liq_book_${w.id}`,
+      price: w.price,
+      time: w.firstSeen,
+      type: w.side === 'ASK' ? 'HIGH' : 'LOW',
+      status: 'ACTIVE',
+      strength: Math.min(100, Math.round(20 + w.multiple * 10)),
+      timeframe,
+      members: [],
+      origin: 'BOOK',
+    }));
+}
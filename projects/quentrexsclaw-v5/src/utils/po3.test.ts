@@ -0,0 +1,48 @@
+import type { Candle } from '../types';
+import { detectDailyNarrative } from './po3';
+
+const DAY = 86400000;
+
+/** One UTC day of quiet 15m candles around 100.5 (Asian range 100.3 – 100.7), up to `until` minutes */
+function quietDay(until: number, from = 0): Candle[] {
+  const out: Candle[] = [];
+  for (let m = from; m < until; m += 15) out.push({ time: 10 * DAY + m * 60000, open: 100.5, high: 100.7, low: 100.3, close: 100.5, volume: 100 });
+  return out;
+}
+
+const at = (minute: number, open: number, high: number, low: number, close: number): Candle =>
+  ({ time: 10 * DAY + minute * 60000, open, high, low, close, volume: 100 });
+
+// London killzone opens at 13:00 local (tz 0 here)
+const raid = at(780, 100.5, 101.5, 100.4, 101.2);
+const reversal = at(795, 101.2, 101.3, 100.1, 100.2);
+
+describe('Power of Three', () => {
+  it('builds the Asian range in accumulation', () => {
+    const n = detectDailyNarrative(quietDay(720), '15m', 0)!;
+    expect(n).toMatchObject({ phase: 'ACCUMULATION', bias: 'NEUTRAL', asiaHigh: 100.7, asiaLow: 100.3, midnightOpen: 100.5, judas: null });
+    expect(n.dayStart).toBe(10 * DAY);
+  });
+
+  it('waits in manipulation once London runs the Asian high', () => {
+    const n = detectDailyNarrative([...quietDay(780), raid], '15m', 0)!;
+    expect(n).toMatchObject({ phase: 'MANIPULATION', bias: 'NEUTRAL' });
+    expect(n.judas).toMatchObject({ session: 'LKZ', falseMove: 'UP', extreme: 101.5, confirmed: false });
+  });
+
+  it('calls distribution the other way after a close back through the session open', () => {
+    const n = detectDailyNarrative([...quietDay(780), raid, reversal], '15m', 0)!;
+    expect(n).toMatchObject({ phase: 'DISTRIBUTION', bias: 'BEARISH' });
+    expect(n.judas).toMatchObject({ confirmed: true, reversalTime: reversal.time, sessionOpen: 100.5 });
+  });
+
+  it('has no midnight open unless a candle opens at local midnight', () => {
+    expect(detectDailyNarrative(quietDay(720, 15), '15m', 0)!.midnightOpen).toBeNull();
+    expect(detectDailyNarrative(quietDay(720), '15m', 30)!.midnightOpen).toBeNull(); // days start at :30 UTC
+  });
+
+  it('needs an intraday timeframe', () => {
+    expect(detectDailyNarrative(quietDay(720), '4h', 0)).toBeNull();
+    expect(detectDailyNarrative([], '15m', 0)).toBeNull();
+  });
+});
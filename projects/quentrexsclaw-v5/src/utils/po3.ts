@@ -0,0 +1,143 @@
+/**
+ * utils/po3.ts
+ * Power of Three for the current trading day (MMT):
+ *   Accumulation  — Asian killzone builds the range
+ *   Manipulation  — London / NY open runs one side of that range (Judas swing)
+ *   Distribution  — price reverses through the session open and delivers the other way
+ */
+
+import type { Candle, DailyNarrative, JudasSwing, Timeframe } from '../types';
+import { MMT_OFFSET_MIN, TIMEFRAME_MINUTES, localClock, killzoneWindow } from './sessions';
+
+/**
+ * Narrative for the day of the last candle, from that day's candles only.
+ * Needs an intraday timeframe (≤ 1h) — returns null otherwise.
+ */
+export function detectDailyNarrative(
+  candles: Candle[],
+  timeframe: Timeframe,
+  tzOffsetMin = MMT_OFFSET_MIN
+): DailyNarrative | null {
+  if (candles.length === 0 || TIMEFRAME_MINUTES[timeframe] > 60) return null;
+
+  const last = candles[candles.length - 1];
+  const { day, minute: now } = localClock(last.time, tzOffsetMin);
+  let start = candles.length - 1;
+  while (start > 0 && localClock(candles[start - 1].time, tzOffsetMin).day === day) start--;
+  const today = candles.slice(start);
+
+  const inWindow = (name: 'AKZ' | 'LKZ' | 'NYKZ') => {
+    const w = killzoneWindow(name);
+    return today.filter(c => {
+      const m = localClock(c.time, tzOffsetMin).minute;
+      return m >= w.start && m < w.end;
+    });
+  };
+
+  const asia = rangeOf(inWindow('AKZ'));
+  const asiaDone = now >= killzoneWindow('AKZ').end;
+  const london = inWindow('LKZ');
+  const londonRange = rangeOf(london);
+  const londonDone = now >= killzoneWindow('LKZ').end;
+
+  // London runs Asia, NY runs London — latest confirmed swing wins, else latest pending
+  const candidates: JudasSwing[] = [];
+  if (asia && asiaDone) {
+    const j = findJudas('LKZ', london, asia);
+    if (j) candidates.push(j);
+  }
+  if (londonRange && londonDone) {
+    const j = findJudas('NYKZ', inWindow('NYKZ'), londonRange);
+    if (j) candidates.push(j);
+  }
+  const confirmed = candidates.filter(j => j.confirmed);
+  const judas = confirmed[confirmed.length - 1] ?? candidates[candidates.length - 1] ?? null;
+
+  const asiaTaken = !!asia && asiaDone && today.some(c =>
+    localClock(c.time, tzOffsetMin).minute >= killzoneWindow('AKZ').end && (c.high > asia.high || c.low < asia.low)
+  );
+
+  const base = {
+    dayStart: day * 86400000 - tzOffsetMin * 60000,
+    midnightOpen: localClock(today[0].time, tzOffsetMin).minute === 0 ? today[0].open : null,
+    asiaHigh: asia?.high ?? null,
+    asiaLow: asia?.low ?? null,
+    judas,
+  };
+
+  if (judas?.confirmed) {
+    const bias = judas.falseMove === 'UP' ? 'BEARISH' : 'BULLISH';
+    const side = judas.falseMove === 'UP' ? 'high' : 'low';
+    const session = judas.session === 'LKZ' ? 'London' : 'NY';
+    return {
+      ...base, phase: 'DISTRIBUTION', bias,
+      reason: `${session} Judas raided the range ${side} @ ${judas.extreme.toFixed(3)} and reversed through the open — distribution ${bias.toLowerCase()}`,
+    };
+  }
+  if (judas || asiaTaken) {
+    return {
+      ...base, phase: 'MANIPULATION', bias: 'NEUTRAL',
+      reason: judas
+        ? `${judas.session === 'LKZ' ? 'London' : 'NY'} ran the range ${judas.falseMove === 'UP' ? 'high' : 'low'} — waiting for a close back through the session open`
+        : 'Asian range taken — waiting for the reversal',
+    };
+  }
+  return {
+    ...base, phase: 'ACCUMULATION', bias: 'NEUTRAL',
+    reason: asia ? `Asian range ${asia.low.toFixed(3)} – ${asia.high.toFixed(3)}` : 'Building the Asian range',
+  };
+}
+
+// ─── HELPERS ──────────────────────────────────────────────────────────────────
+
+function rangeOf(candles: Candle[]): { high: number; low: number } | null {
+  if (candles.length === 0) return null;
+  return {
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+  };
+}
+
+/**
+ * First side of `ref` the session trades through is the false move;
+ * it is confirmed once a candle closes back inside the range AND through the session open.
+ * A candle that takes both sides before any sweep is not a clean Judas.
+ */
+function findJudas(
+  session: 'LKZ' | 'NYKZ',
+  candles: Candle[],
+  ref: { high: number; low: number }
+): JudasSwing | null {
+  if (candles.length === 0) return null;
+  const sessionOpen = candles[0].open;
+  let judas: JudasSwing | null = null;
+
+  for (const c of candles) {
+    if (!judas) {
+      const up = c.high > ref.high;
+      const down = c.low < ref.low;
+      if (!up && !down) continue;
+      if (up && down) return null;
+      judas = {
+        session, falseMove: up ? 'UP' : 'DOWN',
+        refHigh: ref.high, refLow: ref.low, sessionOpen,
+        extreme: up ? c.high : c.low,
+        sweepTime: c.time,
+        confirmed: false,
+      };
+    } else {
+      judas.extreme = judas.falseMove === 'UP' ? Math.max(judas.extreme, c.high) : Math.min(judas.extreme, c.low);
+    }
+
+    const reversed = judas.falseMove === 'UP'
+      ? c.close < Math.min(sessionOpen, ref.high)
+      : c.close > Math.max(sessionOpen, ref.low);
+    if (reversed) {
+      judas.confirmed = true;
+      judas.reversalTime = c.time;
+      break;
+    }
+  }
+
+  return judas;
+}
@@ -0,0 +1,69 @@
+import type { LiquidityLevel, OISample } from '../types';
+import { classifyPositioning, lastSweptLevel, POSITIONING_WINDOW_MS } from './positioning';
+import { runPositioningAgent } from './agents';
+
+const H1 = 3600000;
+
+/** Two samples an hour apart: OI 1000 → 1000·(1 + oiPct%), price 100 → 100·(1 + pricePct%) */
+const window = (oiPct: number, pricePct = 0): OISample[] => [
+  { time: 0, openInterest: 1000, price: 100 },
+  { time: H1, openInterest: 1000 * (1 + oiPct / 100), price: 100 * (1 + pricePct / 100) },
+];
+
+const swept = (type: 'HIGH' | 'LOW', sweepTime: number): LiquidityLevel => ({
+  id: `liq_${type}_${sweepTime}`, price: 100, time: 0, type, status: 'SWEPT', sweepTime, strength: 50, timeframe: '15m', members: [],
+});
+
+describe('positioning', () => {
+  it('needs two samples inside the window', () => {
+    expect(classifyPositioning(window(5).slice(1), 0.01)).toBeNull();
+    const stale = [{ time: -POSITIONING_WINDOW_MS - 1, openInterest: 500, price: 90 }, window(5)[1]];
+    expect(classifyPositioning(stale, 0.01)).toBeNull();
+  });
+
+  it('reads an OI drop after a sweep as that side flushed', () => {
+    expect(classifyPositioning(window(-4), 0.01, swept('LOW', 0))).toMatchObject({ regime: 'OI_FLUSH', favors: 'LONG' });
+    expect(classifyPositioning(window(-4), 0.01, swept('HIGH', H1))).toMatchObject({ regime: 'OI_FLUSH', favors: 'SHORT' });
+    expect(classifyPositioning(window(-4), 0.01, swept('LOW', -1))).toMatchObject({ regime: 'NEUTRAL', favors: null });
+  });
+
+  it('sorts an OI build by who pays funding and whether price pays them back', () => {
+    const regime = (funding: number, pricePct: number) => {
+      const s = classifyPositioning(window(5, pricePct), funding)!;
+      return [s.regime, s.favors];
+    };
+    expect(regime(-0.02, 0)).toEqual(['SHORT_SQUEEZE_FUEL', 'LONG']);
+    expect(regime(0.05, 0)).toEqual(['LONG_SQUEEZE_FUEL', 'SHORT']);
+    expect(regime(0.05, 1)).toEqual(['CROWDED_LONGS', 'SHORT']);
+    expect(regime(-0.02, -1)).toEqual(['CROWDED_SHORTS', 'LONG']);
+    expect(regime(0.01, 1)).toEqual(['NEUTRAL', null]);
+  });
+
+  it('falls back to the newest sample carrying funding', () => {
+    const samples = window(5);
+    samples[0].fundingRate = 0.05;
+    expect(classifyPositioning(samples, null)).toMatchObject({ regime: 'LONG_SQUEEZE_FUEL', fundingRate: 0.05 });
+    expect(classifyPositioning(window(5), null)).toMatchObject({ regime: 'NEUTRAL', fundingRate: null });
+  });
+
+  it('picks the most recently swept level', () => {
+    const levels = [swept('LOW', 5), swept('HIGH', 9), { ...swept('LOW', 20), status: 'ACTIVE' as const }];
+    expect(lastSweptLevel(levels)!.sweepTime).toBe(9);
+    expect(lastSweptLevel([])).toBeNull();
+  });
+
+  describe('positioning agent', () => {
+    it('scores a regime for or against the trade', () => {
+      const flush = classifyPositioning(window(-4), 0.01, swept('LOW', 0));
+      expect(runPositioningAgent(flush, 'LONG')).toMatchObject({ score: 85, bullish: true });
+      expect(runPositioningAgent(flush, 'SHORT')).toMatchObject({ score: 15, bullish: true }); // a long flush reads bullish either way
+      expect(runPositioningAgent(flush, 'LONG').weight).toBeGreaterThan(0);
+    });
+
+    it('carries no weight when positioning favours neither side', () => {
+      const neutral = classifyPositioning(window(1), 0.06);
+      expect(runPositioningAgent(neutral, 'LONG')).toMatchObject({ score: 40, weight: 0 }); // still pays extreme funding
+      expect(runPositioningAgent(null, 'SHORT')).toMatchObject({ score: 50, weight: 0 });
+    });
+  });
+});
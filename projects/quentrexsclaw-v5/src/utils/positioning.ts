@@ -0,0 +1,77 @@
+/**
+ * utils/positioning.ts
+ * Funding + open interest regime over a rolling window — who is crowded,
+ * who is fuel for a squeeze, and whether a sweep just flushed one side out.
+ */
+
+import type { LiquidityLevel, OISample, PositioningState } from '../types';
+
+export const POSITIONING_WINDOW_MS = 4 * 3600000;
+export const FUNDING_HOT = 0.03;         // % per 8h — longs paying well above the 0.01% baseline
+export const FUNDING_COLD = -0.01;       // % per 8h — shorts paying
+export const OI_BUILD_PCT = 2;           // OI growth that counts as positions being added
+export const OI_FLUSH_PCT = -3;          // OI drop that counts as a flush
+export const FLAT_PRICE_PCT = 0.3;       // |price change| below this = price holding
+
+/**
+ * Classify the last `windowMs` of samples. `fundingRate` is the latest ticker
+ * value (falls back to the newest sample carrying one); `lastSweep` is the most
+ * recent swept liquidity level, needed for OI_FLUSH.
+ * Returns null with fewer than two samples in the window.
+ */
+export function classifyPositioning(
+  samples: OISample[],
+  fundingRate: number | null,
+  lastSweep: LiquidityLevel | null = null,
+  windowMs = POSITIONING_WINDOW_MS
+): PositioningState | null {
+  const last = samples[samples.length - 1];
+  if (!last) return null;
+  const recent = samples.filter(s => s.time >= last.time - windowMs);
+  if (recent.length < 2) return null;
+
+  const first = recent[0];
+  const oiChangePct = first.openInterest > 0 ? (last.openInterest - first.openInterest) / first.openInterest * 100 : 0;
+  const priceChangePct = (last.price - first.price) / first.price * 100;
+  const funding = fundingRate ?? [...recent].reverse().find(s => s.fundingRate !== undefined)?.fundingRate ?? null;
+  const base = { fundingRate: funding, oiChangePct, priceChangePct };
+  const fundingStr = funding !== null ? `funding ${funding >= 0 ? '+' : ''}${funding.toFixed(4)}%` : 'funding n/a';
+  const oiStr = `OI ${oiChangePct >= 0 ? '+' : ''}${oiChangePct.toFixed(1)}%`;
+
+  // Flush: OI dumped after a sweep inside the window — the swept side was washed out
+  if (oiChangePct <= OI_FLUSH_PCT && lastSweep?.sweepTime !== undefined && lastSweep.sweepTime >= first.time) {
+    const favors = lastSweep.type === 'LOW' ? 'LONG' : 'SHORT';
+    return {
+      ...base, regime: 'OI_FLUSH', favors,
+      reason: `${oiStr} after the ${lastSweep.type === 'LOW' ? 'low' : 'high'} sweep — ${favors === 'LONG' ? 'longs' : 'shorts'} flushed`,
+    };
+  }
+
+  if (funding === null || oiChangePct < OI_BUILD_PCT) {
+    return { ...base, regime: 'NEUTRAL', favors: null, reason: `${oiStr}, ${fundingStr} — no build-up` };
+  }
+
+  // OI building — who is adding, and is price rewarding them?
+  if (funding <= FUNDING_COLD && priceChangePct > -FLAT_PRICE_PCT) {
+    return { ...base, regime: 'SHORT_SQUEEZE_FUEL', favors: 'LONG', reason: `Shorts paying (${fundingStr}) and adding (${oiStr}) while price holds` };
+  }
+  if (funding >= FUNDING_HOT && priceChangePct < FLAT_PRICE_PCT) {
+    return { ...base, regime: 'LONG_SQUEEZE_FUEL', favors: 'SHORT', reason: `Longs paying (${fundingStr}) and adding (${oiStr}) while price stalls` };
+  }
+  if (funding >= FUNDING_HOT) {
+    return { ...base, regime: 'CROWDED_LONGS', favors: 'SHORT', reason: `Longs crowded: ${fundingStr}, ${oiStr} into a rally` };
+  }
+  if (funding <= FUNDING_COLD) {
+    return { ...base, regime: 'CROWDED_SHORTS', favors: 'LONG', reason: `Shorts crowded: ${fundingStr}, ${oiStr} into a drop` };
+  }
+  return { ...base, regime: 'NEUTRAL', favors: null, reason: `${oiStr} with neutral ${fundingStr}` };
+}
+
+/** Most recently swept level, or null */
+export function lastSweptLevel(levels: LiquidityLevel[]): LiquidityLevel | null {
+  let best: LiquidityLevel | null = null;
+  for (const l of levels) {
+    if (l.status === 'SWEPT' && l.sweepTime !== undefined && (!best || l.sweepTime > (best.sweepTime ?? 0))) best = l;
+  }
+  return best;
+}
@@ -0,0 +1,57 @@
+import type { Candle } from '../types';
+import { buildVolumeProfile, periodProfile, detectValueAreaReclaim } from './profile';
+
+const H1 = 3600000;
+
+const bar = (time: number, low: number, high: number, close = (low + high) / 2, volume = 100): Candle =>
+  ({ time, open: (low + high) / 2, high, low, close, volume });
+
+// 100 volume spread over 100–110, another 100 packed into 104.5–105.5 → 10 bins of 1
+const base = [bar(0, 100, 110), bar(H1, 104.5, 105.5)];
+
+describe('volume profile', () => {
+  it('spreads volume over the bins each candle covers', () => {
+    const p = buildVolumeProfile(base, 10)!;
+    expect(p.bins).toEqual([10, 10, 10, 10, 60, 60, 10, 10, 10, 10]);
+    expect(p).toMatchObject({ low: 100, binSize: 1, totalVolume: 200, startTime: 0, endTime: H1 });
+  });
+
+  it('grows the value area from the POC toward the heavier side', () => {
+    const p = buildVolumeProfile(base, 10)!;
+    expect(p.poc).toBe(104.5);
+    expect(p.val).toBe(104);
+    expect(p.vah).toBe(108); // ties go up: 60 + 60 + 10 + 10 = 70%
+  });
+
+  it('marks smoothed peaks as high-volume nodes', () => {
+    expect(buildVolumeProfile(base, 10)!.hvn).toEqual([104.5]);
+  });
+
+  it('builds from the previous local day only', () => {
+    const candles = [bar(0, 100, 101), bar(12 * H1, 101, 102), bar(24 * H1, 90, 95), bar(30 * H1, 92, 93)];
+    const p = periodProfile(candles, 'DAY', 1, 0)!;
+    expect(p).toMatchObject({ startTime: 0, endTime: 12 * H1, low: 100, totalVolume: 200 });
+    expect(periodProfile(candles, 'DAY', 0, 0)!.startTime).toBe(24 * H1);
+  });
+
+  describe('value area reclaim', () => {
+    const profile = buildVolumeProfile(base, 10)!;
+
+    it('reads a wick under VAL that closes back inside as bullish', () => {
+      const after = [bar(2 * H1, 104.2, 106), bar(3 * H1, 103, 105, 104.5)];
+      expect(detectValueAreaReclaim([...base, ...after], profile)).toEqual({
+        type: 'BULLISH', level: 'VAL', price: 104, extreme: 103, sweepTime: 3 * H1, reclaimTime: 3 * H1,
+      });
+    });
+
+    it('takes a close back under VAH as bearish', () => {
+      const after = [bar(2 * H1, 107, 109, 108.5), bar(3 * H1, 106, 108.6, 107)];
+      expect(detectValueAreaReclaim([...base, ...after], profile)).toMatchObject({ type: 'BEARISH', level: 'VAH', extreme: 109, reclaimTime: 3 * H1 });
+    });
+
+    it('is cancelled by a later close outside again', () => {
+      const after = [bar(2 * H1, 103, 105, 104.5), bar(3 * H1, 102, 104.2, 103)];
+      expect(detectValueAreaReclaim([...base, ...after], profile)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * utils/profile.ts
+ * Volume profile — volume-at-price built from candle volume over any range
+ * (a day, a week, a killzone, the visible chart), with POC, value area
+ * and high / low volume nodes. "Sweep → reclaim VAL" is scored from here.
+ */
+
+import type { Candle, KillzoneName, Timeframe, ValueAreaReclaim, VolumeProfile } from '../types';
+import { MMT_OFFSET_MIN, TIMEFRAME_MINUTES, localClock, killzoneWindow } from './sessions';
+
+export const PROFILE_BINS = 48;
+export const VALUE_AREA_PCT = 70;
+
+// ─── BUILD ────────────────────────────────────────────────────────────────────
+
+/**
+ * Each candle's volume is spread evenly over the price bins its high-low covers.
+ * The value area grows out from the POC, one bin at a time toward the heavier
+ * neighbour, until it holds `valueAreaPct`% of the volume.
+ */
+export function buildVolumeProfile(
+  candles: Candle[],
+  binCount = PROFILE_BINS,
+  valueAreaPct = VALUE_AREA_PCT
+): VolumeProfile | null {
+  if (candles.length === 0) return null;
+  const low = Math.min(...candles.map(c => c.low));
+  const high = Math.max(...candles.map(c => c.high));
+  const n = high > low ? binCount : 1;
+  const binSize = high > low ? (high - low) / n : 0;
+  const binOf = (price: number) => binSize > 0 ? Math.min(n - 1, Math.floor((price - low) / binSize)) : 0;
+
+  const bins = new Array<number>(n).fill(0);
+  let totalVolume = 0;
+  for (const c of candles) {
+    const from = binOf(c.low), to = binOf(c.high);
+    const share = c.volume / (to - from + 1);
+    for (let b = from; b <= to; b++) bins[b] += share;
+    totalVolume += c.volume;
+  }
+
+  let pocIdx = 0;
+  for (let b = 1; b < n; b++) if (bins[b] > bins[pocIdx]) pocIdx = b;
+
+  let lo = pocIdx, hi = pocIdx, acc = bins[pocIdx];
+  const target = totalVolume * valueAreaPct / 100;
+  while (acc < target && (lo > 0 || hi < n - 1)) {
+    const above = hi < n - 1 ? bins[hi + 1] : -1;
+    const below = lo > 0 ? bins[lo - 1] : -1;
+    if (above >= below) acc += bins[++hi];
+    else acc += bins[--lo];
+  }
+
+  const mid = (b: number) => low + (b + 0.5) * binSize;
+  const { hvn, lvn } = findVolumeNodes(bins);
+
+  return {
+    startTime: candles[0].time,
+    endTime: candles[candles.length - 1].time,
+    low,
+    binSize,
+    bins,
+    totalVolume,
+    poc: mid(pocIdx),
+    vah: low + (hi + 1) * binSize,
+    val: low + lo * binSize,
+    hvn: hvn.map(mid),
+    lvn: lvn.map(mid),
+  };
+}
+
+/**
+ * Peaks / troughs of the 3-bin smoothed profile:
+ * HVN ≥ 1.25× the mean bin, LVN ≤ 0.6× the mean bin (interior bins only).
+ */
+function findVolumeNodes(bins: number[]): { hvn: number[]; lvn: number[] } {
+  const hvn: number[] = [], lvn: number[] = [];
+  if (bins.length < 5) return { hvn, lvn };
+  const smooth = bins.map((_, i) => {
+    const w = bins.slice(Math.max(0, i - 1), i + 2);
+    return w.reduce((s, v) => s + v, 0) / w.length;
+  });
+  const mean = smooth.reduce((s, v) => s + v, 0) / smooth.length;
+
+  for (let i = 1; i < smooth.length - 1; i++) {
+    if (smooth[i] > smooth[i - 1] && smooth[i] >= smooth[i + 1] && smooth[i] >= mean * 1.25) hvn.push(i);
+    if (smooth[i] < smooth[i - 1] && smooth[i] <= smooth[i + 1] && smooth[i] <= mean * 0.6) lvn.push(i);
+  }
+  return { hvn, lvn };
+}
+
+// ─── RANGES ───────────────────────────────────────────────────────────────────
+
+/** Profile of the local day / week `back` periods before the last candle's (0 = developing) */
+export function periodProfile(
+  candles: Candle[],
+  period: 'DAY' | 'WEEK',
+  back = 1,
+  tzOffsetMin = MMT_OFFSET_MIN
+): VolumeProfile | null {
+  if (candles.length === 0) return null;
+  const periodOf = (c: Candle) => {
+    const { day } = localClock(c.time, tzOffsetMin);
+    return period === 'DAY' ? day : Math.floor((day + 3) / 7); // Monday-based weeks
+  };
+  const target = periodOf(candles[candles.length - 1]) - back;
+  const inside: Candle[] = [];
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const p = periodOf(candles[i]);
+    if (p < target) break;
+    if (p === target) inside.push(candles[i]);
+  }
+  return buildVolumeProfile(inside.reverse());
+}
+
+/** Profile of the latest occurrence of a killzone (developing while it is open) */
+export function sessionProfile(
+  candles: Candle[],
+  session: Exclude<KillzoneName, 'IDLE'>,
+  tzOffsetMin = MMT_OFFSET_MIN
+): VolumeProfile | null {
+  const { start, end } = killzoneWindow(session);
+  let day: number | null = null;
+  const inside: Candle[] = [];
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const clock = localClock(candles[i].time, tzOffsetMin);
+    const within = clock.minute >= start && clock.minute < end;
+    if (day === null) {
+      if (within) day = clock.day;
+      else continue;
+    }
+    if (clock.day !== day) break;
+    if (within) inside.unshift(candles[i]);
+  }
+  return buildVolumeProfile(inside);
+}
+
+/**
+ * Reference profile the current bars trade against:
+ * previous day on intraday timeframes, previous week on 4h / 1d, none on 1w.
+ */
+export function referenceProfile(
+  candles: Candle[],
+  timeframe: Timeframe,
+  tzOffsetMin = MMT_OFFSET_MIN
+): VolumeProfile | null {
+  const tfMin = TIMEFRAME_MINUTES[timeframe];
+  if (tfMin <= 60) return periodProfile(candles, 'DAY', 1, tzOffsetMin);
+  if (tfMin < 10080) return periodProfile(candles, 'WEEK', 1, tzOffsetMin);
+  return null;
+}
+
+// ─── EVENTS ───────────────────────────────────────────────────────────────────
+
+/**
+ * Latest value-area reclaim in the last `lookback` candles after the profile:
+ * a wick outside VAL / VAH, then a close back inside. A later close outside
+ * again cancels it, so a returned reclaim still holds at the last candle.
+ */
+export function detectValueAreaReclaim(
+  candles: Candle[],
+  profile: VolumeProfile,
+  lookback = 12
+): ValueAreaReclaim | null {
+  const after = candles.slice(-lookback).filter(c => c.time > profile.endTime);
+  let best: ValueAreaReclaim | null = null;
+
+  for (const level of ['VAL', 'VAH'] as const) {
+    const price = level === 'VAL' ? profile.val : profile.vah;
+    const below = level === 'VAL';
+    let sweep: { time: number; extreme: number } | null = null;
+    let reclaim: ValueAreaReclaim | null = null;
+
+    for (const c of after) {
+      const outside = below ? c.low < price : c.high > price;
+      if (outside) {
+        const ext = below ? c.low : c.high;
+        if (!sweep || reclaim) sweep = { time: c.time, extreme: ext };
+        else sweep.extreme = below ? Math.min(sweep.extreme, ext) : Math.max(sweep.extreme, ext);
+        reclaim = null;
+      }
+      if (!sweep) continue;
+      const closedInside = below ? c.close > price : c.close < price;
+      if (closedInside && !reclaim) {
+        reclaim = {
+          type: below ? 'BULLISH' : 'BEARISH', level, price,
+          extreme: sweep.extreme, sweepTime: sweep.time, reclaimTime: c.time,
+        };
+      } else if (!closedInside) {
+        reclaim = null;
+      }
+    }
+
+    if (reclaim && (!best || reclaim.reclaimTime > best.reclaimTime)) best = reclaim;
+  }
+
+  return best;
+}
@@ -0,0 +1,93 @@
+import type { Candle, LiquidityLevel } from '../types';
+import { localClock, killzoneWindow, createSessionTracker, updateSessionTracker, detectSessionLevels, MMT_OFFSET_MIN } from './sessions';
+import { LEVEL_PRUNE_STRENGTH } from './liquidity';
+
+const DAY = 86400000;
+const M15 = 900000;
+
+/** 15m candles from UTC midnight of epoch day `day0` (a Monday is day 4), wave-shaped */
+function days(day0: number, count: number, from = 0): Candle[] {
+  const out: Candle[] = [];
+  for (let i = from; i < count * 96; i++) {
+    const mid = 100 + 5 * Math.sin(i / 9) + i * 0.01;
+    out.push({ time: day0 * DAY + i * M15, open: mid - 0.1, high: mid + 0.5, low: mid - 0.5, close: mid + 0.1, volume: 100 });
+  }
+  return out;
+}
+
+/** Feed candles in UTC (tz 0) and collect what each one publishes, by kind */
+function publish(candles: Candle[]): Map<string, LiquidityLevel & { at: number }> {
+  const t = createSessionTracker(0);
+  const out = new Map<string, LiquidityLevel & { at: number }>();
+  for (const c of candles) {
+    for (const l of updateSessionTracker(t, c, '15m')) out.set(`${l.source}@${localClock(c.time, 0).day}`, { ...l, at: c.time });
+  }
+  return out;
+}
+
+const within = (candles: Candle[], from: number, to: number) => candles.filter(c => c.time >= from && c.time < to);
+
+describe('session and calendar levels', () => {
+  it('converts to MMT', () => {
+    expect(localClock(Date.UTC(2026, 9, 18, 17, 30), MMT_OFFSET_MIN)).toEqual({ day: Date.UTC(2026, 9, 19) / DAY, minute: 0 });
+    expect(localClock(Date.UTC(2026, 9, 18, 3, 0), MMT_OFFSET_MIN).minute).toBe(570);
+  });
+
+  it('publishes the Asian range on the first candle after the window', () => {
+    const candles = days(4, 2);
+    const { start, end } = killzoneWindow('AKZ');
+    const asia = within(candles, 5 * DAY + start * 60000, 5 * DAY + end * 60000);
+    const high = publish(candles).get('ASIA_HIGH@5')!;
+    expect(high.price).toBe(Math.max(...asia.map(c => c.high)));
+    expect(high.at).toBe(5 * DAY + end * 60000);
+    expect(publish(candles).get('ASIA_LOW@5')!.price).toBe(Math.min(...asia.map(c => c.low)));
+  });
+
+  it('drops a session range it only saw part of', () => {
+    const candles = days(4, 1, 8 * 4); // history starts at 08:00, mid-Asia
+    expect(publish(candles).has('ASIA_HIGH@4')).toBe(false);
+  });
+
+  it('publishes PDH/PDL and the midnight open at the day roll, never for the partial first day', () => {
+    const candles = days(4, 3, 48);
+    const levels = publish(candles);
+    expect(levels.has('PDH@5')).toBe(false);
+
+    const day5 = within(candles, 5 * DAY, 6 * DAY);
+    expect(levels.get('PDH@6')).toMatchObject({ price: Math.max(...day5.map(c => c.high)), type: 'HIGH', at: 6 * DAY });
+    expect(levels.get('PDL@6')!.price).toBe(Math.min(...day5.map(c => c.low)));
+    expect(levels.get('MIDNIGHT_OPEN@6')!.price).toBe(candles.find(c => c.time === 6 * DAY)!.open);
+  });
+
+  it('publishes no midnight open when no candle opens at local midnight', () => {
+    const sources = (timeframe: '15m' | '1h') => {
+      const step = timeframe === '1h' ? 3600000 : M15;
+      const t = createSessionTracker(MMT_OFFSET_MIN);
+      const out: LiquidityLevel[] = [];
+      for (let time = 4 * DAY; time < 7 * DAY; time += step) {
+        out.push(...updateSessionTracker(t, { time, open: 100, high: 101, low: 99, close: 100.5, volume: 100 }, timeframe));
+      }
+      return out.map(l => l.source);
+    };
+    expect(sources('1h')).toContain('PDH');
+    expect(sources('1h')).not.toContain('MIDNIGHT_OPEN'); // 1h bars open at :30 in MMT
+    expect(sources('15m')).toContain('MIDNIGHT_OPEN');
+  });
+
+  it('publishes PWH/PWL on the Monday after a full week', () => {
+    const candles = days(3, 12); // Sunday → Thursday next week + 1
+    const levels = publish(candles);
+    const week = within(candles, 4 * DAY, 11 * DAY);
+    expect(levels.get('PWH@11')).toMatchObject({ price: Math.max(...week.map(c => c.high)), at: 11 * DAY });
+    expect(levels.get('PWL@11')!.price).toBe(Math.min(...week.map(c => c.low)));
+  });
+
+  it('ages a weekly level over its week, from the bar it was published on', () => {
+    const levels = detectSessionLevels(days(3, 12), '15m', 0); // ends four days after the roll
+    const pwl = levels.find(l => l.source === 'PWL')!;
+    expect(pwl.status).toBe('ACTIVE');
+    expect(pwl.strength).toBeGreaterThanOrEqual(LEVEL_PRUNE_STRENGTH);
+    // the day levels published at the same roll have already decayed away
+    expect(levels.some(l => l.source === 'PDL' && l.time >= 10 * DAY && l.time < 11 * DAY)).toBe(false);
+  });
+});
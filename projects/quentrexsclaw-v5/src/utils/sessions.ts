@@ -0,0 +1,237 @@
+/**
+ * utils/sessions.ts
+ * Session and calendar liquidity — Asian / London / New York ranges,
+ * previous day / week high-low and the midnight open, all in MMT.
+ * "London sweeps Asia, NY sweeps London."
+ */
+
+import type { Candle, Killzone, KillzoneName, LiquidityLevel, SessionLevelKind, SwingType, Timeframe } from '../types';
+import { updateSweep, trackLevel, updateTrackedLevel, ageTrackedLevel, isLevelLive, LEVEL_HALF_LIFE_BARS } from './liquidity';
+import type { TrackedLevel } from './liquidity';
+import { wilderATR } from './volatility';
+
+// ─── TIMEZONE / SESSION WINDOWS ───────────────────────────────────────────────
+
+/** MMT = UTC+6:30 */
+export const MMT_OFFSET_MIN = 390;
+
+export const KILLZONE_DEFS: Omit<Killzone, 'active' | 'minutesRemaining'>[] = [
+  { name: 'AKZ',  label: 'Asian Killzone',     startH: 6,  startM: 30, endH: 10, endM: 0,  color: '#00ff41' },
+  { name: 'LKZ',  label: 'London Killzone',    startH: 13, startM: 0,  endH: 17, endM: 0,  color: '#00cfff' },
+  { name: 'NYKZ', label: 'New York Killzone',  startH: 18, startM: 15, endH: 22, endM: 15, color: '#ff9500' },
+];
+
+export const TIMEFRAME_MINUTES: Record<Timeframe, number> = {
+  '1m': 1, '3m': 3, '5m': 5, '15m': 15, '30m': 30,
+  '1h': 60, '4h': 240, '1d': 1440, '1w': 10080,
+};
+
+const SESSION_PREFIX: Record<Exclude<KillzoneName, 'IDLE'>, 'ASIA' | 'LONDON' | 'NY'> = {
+  AKZ: 'ASIA', LKZ: 'LONDON', NYKZ: 'NY',
+};
+
+/** Base strength by level kind — older / higher-timeframe ranges hold more resting orders */
+const LEVEL_STRENGTH: Record<SessionLevelKind, number> = {
+  PWH: 80, PWL: 80, PDH: 70, PDL: 70,
+  ASIA_HIGH: 55, ASIA_LOW: 55, LONDON_HIGH: 60, LONDON_LOW: 60, NY_HIGH: 55, NY_LOW: 55,
+  MIDNIGHT_OPEN: 40,
+};
+
+/** Minutes a level's period spans — it stays relevant for about that long once published */
+const LEVEL_PERIOD_MIN: Record<SessionLevelKind, number> = {
+  PWH: 10080, PWL: 10080, PDH: 1440, PDL: 1440,
+  ASIA_HIGH: 1440, ASIA_LOW: 1440, LONDON_HIGH: 1440, LONDON_LOW: 1440, NY_HIGH: 1440, NY_LOW: 1440,
+  MIDNIGHT_OPEN: 1440,
+};
+
+/** Local day number (since epoch) and minute of day for a UTC timestamp */
+export function localClock(time: number, tzOffsetMin = MMT_OFFSET_MIN): { day: number; minute: number } {
+  const local = time + tzOffsetMin * 60000;
+  const day = Math.floor(local / 86400000);
+  return { day, minute: Math.floor((local - day * 86400000) / 60000) };
+}
+
+/** Killzone window in minutes of the local day, [start, end) */
+export function killzoneWindow(name: Exclude<KillzoneName, 'IDLE'>): { start: number; end: number } {
+  const kz = KILLZONE_DEFS.find(k => k.name === name);
+  return kz ? { start: kz.startH * 60 + kz.startM, end: kz.endH * 60 + kz.endM } : { start: 0, end: 0 };
+}
+
+// ─── TRACKER ──────────────────────────────────────────────────────────────────
+
+interface RangeState {
+  high: number; highTime: number;
+  low: number;  lowTime: number;
+  complete: boolean;     // saw the start of the window, not a partial range
+}
+
+export interface SessionTracker {
+  tzOffsetMin: number;
+  day: number | null;    // local day number of the last candle
+  week: number | null;
+  dayRange: RangeState | null;
+  weekRange: RangeState | null;
+  sessions: Partial<Record<KillzoneName, RangeState>>; // open session ranges only
+}
+
+export function createSessionTracker(tzOffsetMin = MMT_OFFSET_MIN): SessionTracker {
+  return { tzOffsetMin, day: null, week: null, dayRange: null, weekRange: null, sessions: {} };
+}
+
+/**
+ * Feed one closed candle. Returns the levels this candle completes:
+ * a session's high/low once the first candle after the window arrives,
+ * PDH/PDL on the first candle of a new day, plus the midnight open when that
+ * candle opens at 00:00 local (not on a 1h chart in MMT, for one),
+ * PWH/PWL on the first candle of a new (Monday-based) week.
+ * Partial first ranges are dropped; intraday levels need an intraday timeframe.
+ * Returned levels already have this candle applied to their sweep state
+ * (except the midnight open, which this candle printed); `atr` is this candle's ATR.
+ */
+export function updateSessionTracker(t: SessionTracker, c: Candle, timeframe: Timeframe, atr = 0): LiquidityLevel[] {
+  const tfMin = TIMEFRAME_MINUTES[timeframe];
+  const { day, minute } = localClock(c.time, t.tzOffsetMin);
+  const week = Math.floor((day + 3) / 7); // epoch day 0 was a Thursday
+  const out: LiquidityLevel[] = [];
+
+  // Sessions (need bars no wider than the shortest window)
+  if (tfMin <= 60) {
+    for (const kz of KILLZONE_DEFS) {
+      const name = kz.name as Exclude<KillzoneName, 'IDLE'>;
+      const { start, end } = killzoneWindow(name);
+      const inside = minute >= start && minute < end;
+      const open = t.sessions[name];
+
+      if (open && (!inside || day !== t.day)) {
+        if (open.complete) out.push(...rangeLevels(open, `${SESSION_PREFIX[name]}_HIGH`, `${SESSION_PREFIX[name]}_LOW`, timeframe));
+        delete t.sessions[name];
+      }
+      if (inside) {
+        const cur = t.sessions[name];
+        if (cur) extendRange(cur, c);
+        else t.sessions[name] = newRange(c, minute - start < tfMin);
+      }
+    }
+  }
+
+  // New day → PDH/PDL + midnight open
+  if (t.day !== null && day !== t.day) {
+    if (tfMin < 1440 && t.dayRange?.complete) out.push(...rangeLevels(t.dayRange, 'PDH', 'PDL', timeframe));
+    if (tfMin < 1440 && minute === 0) { // no candle opened at local midnight → no midnight open
+      out.push(calendarLevel('MIDNIGHT_OPEN', c.close >= c.open ? 'LOW' : 'HIGH', c.open, c.time, timeframe));
+    }
+    t.dayRange = null;
+  }
+
+  // New week → PWH/PWL
+  if (t.week !== null && week !== t.week) {
+    if (tfMin < 10080 && t.weekRange?.complete) out.push(...rangeLevels(t.weekRange, 'PWH', 'PWL', timeframe));
+    t.weekRange = null;
+  }
+
+  const firstDay = t.day === null;
+  if (t.dayRange) extendRange(t.dayRange, c);
+  else t.dayRange = newRange(c, !firstDay);
+  if (t.weekRange) extendRange(t.weekRange, c);
+  else t.weekRange = newRange(c, !firstDay);
+  t.day = day;
+  t.week = week;
+
+  for (const level of out) {
+    if (level.source !== 'MIDNIGHT_OPEN') updateSweep(level, c, atr);
+  }
+  return out;
+}
+
+/**
+ * Tracked state for a level updateSessionTracker returned on candle n:
+ * aged from n, the bar it was published on (a PWH set days earlier is fresh
+ * liquidity on Monday), over a horizon as long as its period — a week for
+ * PWH/PWL, a day for the rest — and never shorter than a swing's.
+ * Its kind's base strength stays fixed.
+ */
+export function trackSessionLevel(
+  level: LiquidityLevel,
+  candles: Candle[],
+  n: number,
+  atr: number[],
+  timeframe: Timeframe
+): TrackedLevel {
+  const periodBars = (level.source ? LEVEL_PERIOD_MIN[level.source] : 1440) / TIMEFRAME_MINUTES[timeframe];
+  const t = trackLevel(level, n, level.strength, Math.max(1, periodBars / LEVEL_HALF_LIFE_BARS[timeframe]));
+  t.far = level.type === 'HIGH' ? Math.min(t.far, candles[n].low) : Math.max(t.far, candles[n].high);
+  if (level.status === 'SWEPT') t.sweepIndex = n;
+  ageTrackedLevel(t, n, atr[n], timeframe);
+  return t;
+}
+
+/**
+ * Batch: every session / calendar level in the candle array still live at
+ * the last candle, with sweeps tracked through to it.
+ */
+export function detectSessionLevels(
+  candles: Candle[],
+  timeframe: Timeframe,
+  tzOffsetMin = MMT_OFFSET_MIN
+): LiquidityLevel[] {
+  const tracker = createSessionTracker(tzOffsetMin);
+  const atr = wilderATR(candles);
+  let tracked: TrackedLevel[] = [];
+
+  candles.forEach((c, i) => {
+    tracked = tracked.filter(t => updateTrackedLevel(t, candles, i, atr, timeframe));
+    for (const level of updateSessionTracker(tracker, c, timeframe, atr[i])) {
+      tracked.push(trackSessionLevel(level, candles, i, atr, timeframe));
+    }
+    tracked = tracked.filter(t => isLevelLive(t, i));
+  });
+
+  return tracked.map(t => t.level);
+}
+
+/** Human label for the dashboard / agent details */
+export function sessionLevelLabel(kind: SessionLevelKind): string {
+  return kind.replace('_HIGH', ' High').replace('_LOW', ' Low').replace('_', ' ');
+}
+
+// ─── HELPERS ──────────────────────────────────────────────────────────────────
+
+function newRange(c: Candle, complete: boolean): RangeState {
+  return { high: c.high, highTime: c.time, low: c.low, lowTime: c.time, complete };
+}
+
+function extendRange(r: RangeState, c: Candle): void {
+  if (c.high > r.high) { r.high = c.high; r.highTime = c.time; }
+  if (c.low < r.low)   { r.low = c.low;   r.lowTime = c.time; }
+}
+
+function rangeLevels(r: RangeState, highKind: SessionLevelKind, lowKind: SessionLevelKind, timeframe: Timeframe): LiquidityLevel[] {
+  return [
+    calendarLevel(highKind, 'HIGH', r.high, r.highTime, timeframe),
+    calendarLevel(lowKind,  'LOW',  r.low,  r.lowTime,  timeframe),
+  ];
+}
+
+/**
+ * The midnight open has no side of its own — it is filed on the side it sits
+ * relative to the first candle's close (below a rising candle = LOW).
+ */
+function calendarLevel(
+  kind: SessionLevelKind,
+  type: SwingType,
+  price: number,
+  time: number,
+  timeframe: Timeframe
+): LiquidityLevel {
+  return {
+    id: `liq_${timeframe}_${kind}_${time}`,
+    price,
+    time,
+    type,
+    status: 'ACTIVE',
+    strength: LEVEL_STRENGTH[kind],
+    timeframe,
+    members: [],
+    source: kind,
+  };
+}
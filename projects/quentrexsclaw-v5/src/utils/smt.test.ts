@@ -0,0 +1,46 @@
+import type { SwingPoint } from '../types';
+import { detectSMT, smtPeers, smtFor } from './smt';
+
+const M15 = 900000;
+
+const sw = (bar: number, price: number, type: 'HIGH' | 'LOW' = 'LOW'): SwingPoint => ({
+  index: bar, time: bar * M15, price, type, status: 'CONFIRMED',
+});
+
+describe('SMT divergence', () => {
+  it('lists every symbol sharing a group', () => {
+    expect(smtPeers('ETHUSDT').sort()).toEqual(['BTCUSDT', 'DOTUSDT', 'LINKUSDT']);
+    expect(smtPeers('UNKNOWN')).toEqual([]);
+  });
+
+  it('flags a lower low one pair makes and the other refuses', () => {
+    const divs = detectSMT({
+      BTCUSDT: [sw(10, 100), sw(30, 99)],   // lower low — swept
+      ETHUSDT: [sw(11, 50), sw(29, 50.5)],  // higher low — held
+    }, '15m');
+    expect(divs).toHaveLength(1);
+    expect(divs[0]).toMatchObject({ type: 'BULLISH', swingType: 'LOW', time: 30 * M15 });
+    expect(divs[0].broke.symbol).toBe('BTCUSDT');
+    expect(divs[0].held.symbol).toBe('ETHUSDT');
+    expect(smtFor(divs, 'ETHUSDT')).toEqual(divs);
+    expect(smtFor(divs, 'SOLUSDT')).toEqual([]);
+  });
+
+  it('reads diverging highs as bearish', () => {
+    const divs = detectSMT({
+      SOLUSDT: [sw(10, 150, 'HIGH'), sw(30, 149, 'HIGH')],
+      SUIUSDT: [sw(10, 3, 'HIGH'), sw(31, 3.1, 'HIGH')],
+    }, '15m');
+    expect(divs.map(d => [d.type, d.broke.symbol, d.held.symbol])).toEqual([['BEARISH', 'SUIUSDT', 'SOLUSDT']]);
+  });
+
+  it('ignores agreement and swings too far apart in time', () => {
+    expect(detectSMT({ BTCUSDT: [sw(10, 100), sw(30, 99)], ETHUSDT: [sw(10, 50), sw(30, 49)] }, '15m')).toEqual([]);
+    expect(detectSMT({ BTCUSDT: [sw(10, 100), sw(30, 99)], ETHUSDT: [sw(10, 50), sw(34, 50.5)] }, '15m')).toEqual([]);
+  });
+
+  it('compares a pair listed in two groups once', () => {
+    const groups = [['BTCUSDT', 'ETHUSDT'], ['ETHUSDT', 'BTCUSDT']];
+    expect(detectSMT({ BTCUSDT: [sw(10, 100), sw(30, 99)], ETHUSDT: [sw(10, 50), sw(30, 50.5)] }, '15m', groups)).toHaveLength(1);
+  });
+});
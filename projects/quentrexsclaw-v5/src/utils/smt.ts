@@ -0,0 +1,112 @@
+/**
+ * utils/smt.ts
+ * SMT (Smart Money Technique) divergence across correlated pairs.
+ * BTC sweeps its low while ETH holds a higher low → the sweep lacked
+ * participation across the complex → bullish SMT.
+ */
+
+import type { SMTDivergence, SwingPoint, SwingType, Timeframe } from '../types';
+import { TIMEFRAME_MINUTES } from './sessions';
+
+// ─── CORRELATION GROUPS ───────────────────────────────────────────────────────
+
+/** Symbols compared against each other — only pairs inside one group are checked */
+export const SMT_GROUPS: string[][] = [
+  ['BTCUSDT', 'ETHUSDT'],
+  ['SOLUSDT', 'SUIUSDT', 'AVAXUSDT'],
+  ['ETHUSDT', 'LINKUSDT', 'DOTUSDT'],
+  ['XRPUSDT', 'ADAUSDT', 'LTCUSDT'],
+  ['DOGEUSDT', 'PEPEUSDT', 'WIFUSDT'],
+];
+
+/** Every symbol sharing a group with `symbol` */
+export function smtPeers(symbol: string, groups: string[][] = SMT_GROUPS): string[] {
+  const peers = new Set<string>();
+  for (const g of groups) {
+    if (!g.includes(symbol)) continue;
+    for (const s of g) if (s !== symbol) peers.add(s);
+  }
+  return Array.from(peers);
+}
+
+// ─── DETECTION ────────────────────────────────────────────────────────────────
+
+/**
+ * Compares consecutive same-side swings of every grouped symbol pair.
+ * A peer swing is matched to a reference swing when it printed within
+ * `maxLagBars` bars of it; each comparison needs both swings matched.
+ * Sorted by time.
+ */
+export function detectSMT(
+  swingSets: Record<string, SwingPoint[]>,
+  timeframe: Timeframe,
+  groups: string[][] = SMT_GROUPS,
+  maxLagBars = 3
+): SMTDivergence[] {
+  const maxLag = maxLagBars * TIMEFRAME_MINUTES[timeframe] * 60000;
+  const divergences: SMTDivergence[] = [];
+  const seen = new Set<string>();
+
+  for (const group of groups) {
+    const symbols = group.filter(s => swingSets[s]?.length);
+    for (let a = 0; a < symbols.length; a++) {
+      for (let b = a + 1; b < symbols.length; b++) {
+        const key = [symbols[a], symbols[b]].sort().join('|');
+        if (seen.has(key)) continue; // pair listed in two groups
+        seen.add(key);
+        for (const type of ['HIGH', 'LOW'] as const) {
+          divergences.push(...comparePair(symbols[a], swingSets[symbols[a]], symbols[b], swingSets[symbols[b]], type, maxLag));
+        }
+      }
+    }
+  }
+
+  return divergences.sort((x, y) => x.time - y.time);
+}
+
+/** Divergences in which `symbol` took part, newest last */
+export function smtFor(divergences: SMTDivergence[], symbol: string): SMTDivergence[] {
+  return divergences.filter(d => d.broke.symbol === symbol || d.held.symbol === symbol);
+}
+
+function comparePair(
+  symA: string, swingsA: SwingPoint[],
+  symB: string, swingsB: SwingPoint[],
+  type: SwingType,
+  maxLag: number
+): SMTDivergence[] {
+  const out: SMTDivergence[] = [];
+  const a = swingsA.filter(s => s.type === type);
+  const b = swingsB.filter(s => s.type === type);
+
+  for (let i = 1; i < a.length; i++) {
+    const prevB = nearestSwing(b, a[i - 1].time, maxLag);
+    const currB = nearestSwing(b, a[i].time, maxLag);
+    if (!prevB || !currB || prevB === currB) continue;
+
+    const legA = { symbol: symA, prev: a[i - 1], curr: a[i] };
+    const legB = { symbol: symB, prev: prevB, curr: currB };
+    const extA = type === 'HIGH' ? legA.curr.price > legA.prev.price : legA.curr.price < legA.prev.price;
+    const extB = type === 'HIGH' ? legB.curr.price > legB.prev.price : legB.curr.price < legB.prev.price;
+    if (extA === extB) continue; // both confirmed (or both failed) — no divergence
+
+    out.push({
+      type: type === 'LOW' ? 'BULLISH' : 'BEARISH',
+      swingType: type,
+      time: Math.max(legA.curr.time, legB.curr.time),
+      broke: extA ? legA : legB,
+      held: extA ? legB : legA,
+    });
+  }
+
+  return out;
+}
+
+function nearestSwing(swings: SwingPoint[], time: number, maxLag: number): SwingPoint | null {
+  let best: SwingPoint | null = null;
+  for (const s of swings) {
+    const lag = Math.abs(s.time - time);
+    if (lag <= maxLag && (!best || lag < Math.abs(best.time - time))) best = s;
+  }
+  return best;
+}
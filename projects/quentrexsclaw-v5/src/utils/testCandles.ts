@@ -0,0 +1,30 @@
+/**
+ * utils/testCandles.ts
+ * Candle fixtures shared by the test suites — one definition, so the
+ * scenarios every test file builds on cannot drift apart.
+ */
+
+import type { Candle } from '../types';
+
+export const M15 = 900000;
+
+/** 15m candles from [open, high, low, close] rows, t = 0 onwards */
+export function bars(rows: number[][]): Candle[] {
+  return rows.map(([open, high, low, close], i) => ({ time: i * M15, open, high, low, close, volume: 100 }));
+}
+
+/** Deterministic random walk — 15m candles from t = 0 */
+export function walk(n: number, seed = 42): Candle[] {
+  const rnd = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const out: Candle[] = [];
+  let p = 100;
+  for (let i = 0; i < n; i++) {
+    const open = p;
+    const close = open * (1 + (rnd() - 0.5) * 0.02);
+    const high = Math.max(open, close) * (1 + rnd() * 0.005);
+    const low = Math.min(open, close) * (1 - rnd() * 0.005);
+    out.push({ time: i * M15, open, high, low, close, volume: 100 + rnd() * 100 });
+    p = close;
+  }
+  return out;
+}
@@ -0,0 +1,58 @@
+import type { Candle } from '../types';
+import { trueRange, wilderATR, calcADR, rangePercentile, calcVolatility } from './volatility';
+
+const H1 = 3600000;
+
+/** 1h candles: [high, low] rows, close at the midpoint */
+function bars(rows: number[][], start = 0): Candle[] {
+  return rows.map(([high, low], i) => ({ time: start + i * H1, open: (high + low) / 2, high, low, close: (high + low) / 2, volume: 100 }));
+}
+
+/** 1h candles from epoch day `day0`, one day per `ranges` entry, each that wide around 100 */
+function dayBars(day0: number, ranges: number[], from = 0): Candle[] {
+  const out: Candle[] = [];
+  ranges.forEach((r, d) => {
+    for (let h = d === 0 ? from : 0; h < 24; h++) {
+      const half = h === 12 ? r / 2 : 0.1; // the day's range is set by one candle at noon
+      out.push({ time: (day0 + d) * 86400000 + h * H1, open: 100, high: 100 + half, low: 100 - half, close: 100, volume: 100 });
+    }
+  });
+  return out;
+}
+
+describe('volatility', () => {
+  it('takes gaps from the previous close into the true range', () => {
+    const candles = bars([[101, 99], [105, 103]]);
+    expect(trueRange(candles, 0)).toBe(2);
+    expect(trueRange(candles, 1)).toBe(5); // 105 - prior close 100
+  });
+
+  it('seeds Wilder ATR with the plain mean, then smooths', () => {
+    const atr = wilderATR(bars([[101, 99], [102, 98], [103, 97]]), 2);
+    expect(atr[0]).toBe(2);
+    expect(atr[1]).toBe(3);        // (2 + 4) / 2
+    expect(atr[2]).toBe(4.5);      // (3 * 1 + 6) / 2
+  });
+
+  it('averages completed days, skipping a partial first day and the current one', () => {
+    const candles = dayBars(10, [50, 2, 4, 6, 8], 18);
+    expect(calcADR(candles, 5)).toBe(4); // days of 2, 4 and 6 — 50 was partial, 8 is today
+    expect(calcADR(candles, 2)).toBe(5);
+  });
+
+  it('falls back to the whole range before any completed day', () => {
+    expect(calcADR(dayBars(10, [3]), 5)).toBe(3);
+    expect(calcADR([], 5)).toBe(0);
+  });
+
+  it('ranks the last bar against the lookback', () => {
+    const candles = bars([[101, 99], [102, 98], [103, 97], [101.5, 98.5]]);
+    expect(rangePercentile(candles)).toBe(33); // range 3 tops only the 2-wide bar of 2, 4, 6
+  });
+
+  it('reports ATR relative to the close', () => {
+    const v = calcVolatility(bars([[101, 99], [101, 99]]));
+    expect(v.atr).toBe(2);
+    expect(v.atrPct).toBe(2);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * utils/volatility.ts
+ * Wilder ATR, average daily range and range percentile.
+ * Everything that used a fixed % of price (stops, targets, displacement)
+ * is sized off these so BTC and PEPE are treated alike.
+ */
+
+import type { Candle, VolatilityProfile } from '../types';
+
+export const ATR_PERIOD = 14;
+
+export function trueRange(candles: Candle[], i: number): number {
+  const c = candles[i];
+  if (i === 0) return c.high - c.low;
+  const prevClose = candles[i - 1].close;
+  return Math.max(c.high, prevClose) - Math.min(c.low, prevClose);
+}
+
+/**
+ * One Wilder step. Until `period` bars exist the ATR is the plain mean of
+ * the true ranges so far, which seeds the smoothing at bar `period - 1`.
+ */
+export function nextATR(prevATR: number | undefined, tr: number, i: number, period = ATR_PERIOD): number {
+  if (prevATR === undefined || i === 0) return tr;
+  if (i < period) return (prevATR * i + tr) / (i + 1);
+  return (prevATR * (period - 1) + tr) / period;
+}
+
+/** ATR value at every index */
+export function wilderATR(candles: Candle[], period = ATR_PERIOD): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < candles.length; i++) {
+    out.push(nextATR(out[i - 1], trueRange(candles, i), i, period));
+  }
+  return out;
+}
+
+/**
+ * Average high-low range of the last `days` completed days.
+ * The first (likely partial) and current day are skipped; with no completed
+ * day the range of everything seen so far is returned.
+ * Walks back from the last candle only as far as it needs to.
+ */
+export function calcADR(candles: Candle[], days = 5, tzOffsetMin = 0): number {
+  if (candles.length === 0) return 0;
+  const ranges: Array<{ day: number; high: number; low: number }> = []; // newest first
+  let i = candles.length - 1;
+  for (; i >= 0; i--) {
+    const c = candles[i];
+    const day = Math.floor((c.time + tzOffsetMin * 60000) / 86400000);
+    const cur = ranges[ranges.length - 1];
+    if (cur && cur.day === day) {
+      cur.high = Math.max(cur.high, c.high);
+      cur.low = Math.min(cur.low, c.low);
+    } else if (ranges.length === days + 1) {
+      break; // the oldest collected day is complete
+    } else {
+      ranges.push({ day, high: c.high, low: c.low });
+    }
+  }
+
+  // Reached the first candle: the oldest day may be partial
+  const complete = ranges.slice(1, i < 0 ? -1 : undefined);
+  if (complete.length === 0) {
+    return Math.max(...ranges.map(r => r.high)) - Math.min(...ranges.map(r => r.low));
+  }
+  return complete.reduce((s, r) => s + r.high - r.low, 0) / complete.length;
+}
+
+/** Share (0-100) of the previous `lookback` bars whose range is ≤ the last bar's */
+export function rangePercentile(candles: Candle[], lookback = 100): number {
+  const n = candles.length - 1;
+  if (n < 1) return 50;
+  const range = candles[n].high - candles[n].low;
+  const from = Math.max(0, n - lookback);
+  let below = 0;
+  for (let i = from; i < n; i++) if (candles[i].high - candles[i].low <= range) below++;
+  return Math.round(below / (n - from) * 100);
+}
+
+/** Snapshot for the last candle — pass a precomputed ATR series to skip recomputing it */
+export function calcVolatility(
+  candles: Candle[],
+  atrSeries: number[] = wilderATR(candles),
+  tzOffsetMin = 0
+): VolatilityProfile {
+  const atr = atrSeries[atrSeries.length - 1] ?? 0;
+  const close = candles[candles.length - 1]?.close ?? 0;
+  return {
+    atr,
+    atrPct: close > 0 ? atr / close * 100 : 0,
+    adr: calcADR(candles, 5, tzOffsetMin),
+    rangePercentile: rangePercentile(candles),
+  };
+}
@@ -0,0 +1,67 @@
+import type { Candle } from '../types';
+import {
+  createVWAPTracker, updateVWAPTracker, vwapSnapshot, previewVWAP, setSwingAnchor, calcAnchoredVWAP, recentVWAPEvents,
+} from './vwap';
+
+const DAY = 86400000;
+const M15 = 900000;
+
+/** Flat 15m candle (typical price = `price`) on epoch day 10 (a Sunday), tz 0 */
+const flat = (bar: number, price: number, volume = 100): Candle =>
+  ({ time: 10 * DAY + bar * M15, open: price, high: price, low: price, close: price, volume });
+
+const day = (vwaps: ReturnType<typeof vwapSnapshot>) => vwaps.find(v => v.kind === 'DAY')!;
+
+describe('anchored VWAP', () => {
+  it('weights typical price by volume and bands it by σ', () => {
+    const { vwaps } = calcAnchoredVWAP([flat(0, 100, 100), flat(1, 104, 300)], '15m', null, 0);
+    const v = day(vwaps);
+    const sd = Math.sqrt(3); // (100²·100 + 104²·300) / 400 − 103²
+    expect(v.vwap).toBeCloseTo(103);
+    expect(v.stdev).toBeCloseTo(sd);
+    v.upper.forEach((u, k) => expect(u).toBeCloseTo(103 + (k + 1) * sd));
+    v.lower.forEach((l, k) => expect(l).toBeCloseTo(103 - (k + 1) * sd));
+    expect(v).toMatchObject({ volume: 400, bars: 2, anchorTime: 10 * DAY });
+  });
+
+  it('restarts the day and week anchors at their boundaries', () => {
+    const { vwaps } = calcAnchoredVWAP([flat(0, 100), flat(1, 102), flat(96, 110)], '15m', null, 0);
+    expect(day(vwaps)).toMatchObject({ vwap: 110, bars: 1, anchorTime: 11 * DAY });
+    expect(vwaps.find(v => v.kind === 'WEEK')!.anchorTime).toBe(11 * DAY); // day 11 is a Monday
+  });
+
+  it('anchors a killzone VWAP on the first bar of its window', () => {
+    const t = createVWAPTracker('15m', 0);
+    for (let b = 0; b < 27; b++) updateVWAPTracker(t, flat(b, 100)); // up to 06:30 = AKZ open
+    expect(vwapSnapshot(t).map(v => v.kind)).toEqual(['DAY', 'WEEK', 'AKZ']);
+    expect(vwapSnapshot(t).find(v => v.kind === 'AKZ')!.anchorTime).toBe(10 * DAY + 26 * M15);
+  });
+
+  it('emits a loss and a reclaim when the close crosses the VWAP', () => {
+    const t = createVWAPTracker('15m', 0);
+    updateVWAPTracker(t, flat(0, 100));
+    updateVWAPTracker(t, flat(1, 102));
+    expect(updateVWAPTracker(t, flat(2, 99)).map(e => [e.type, e.kind])).toEqual([['LOSS', 'DAY'], ['LOSS', 'WEEK']]);
+    expect(updateVWAPTracker(t, flat(3, 104)).map(e => e.type)).toEqual(['RECLAIM', 'RECLAIM']);
+    expect(recentVWAPEvents(t.events, flat(3, 0).time, '15m', 1).map(e => e.type)).toEqual(['RECLAIM', 'RECLAIM']);
+  });
+
+  it('previews the forming candle without committing it', () => {
+    const t = createVWAPTracker('15m', 0);
+    updateVWAPTracker(t, flat(0, 100));
+    const before = vwapSnapshot(t);
+    const preview = previewVWAP(t, flat(1, 104, 300));
+    expect(vwapSnapshot(t)).toEqual(before);
+    expect(day(preview).vwap).toBeCloseTo(103);
+  });
+
+  it('replays a swing anchor from its bar', () => {
+    const candles = [flat(0, 100), flat(1, 110), flat(2, 120)];
+    const t = createVWAPTracker('15m', 0);
+    candles.forEach(c => updateVWAPTracker(t, c));
+    setSwingAnchor(t, candles, candles[1].time);
+    expect(vwapSnapshot(t).find(v => v.kind === 'SWING')).toMatchObject({ vwap: 115, bars: 2 });
+    setSwingAnchor(t, candles, null);
+    expect(vwapSnapshot(t).some(v => v.kind === 'SWING')).toBe(false);
+  });
+});
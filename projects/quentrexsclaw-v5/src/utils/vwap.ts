@@ -0,0 +1,179 @@
+/**
+ * utils/vwap.ts
+ * Anchored VWAP with ±1/2/3σ bands — anchored at the day open, week open,
+ * each killzone open (MMT) and an optional user-chosen swing.
+ * Closed candles are committed once; the forming candle is only previewed,
+ * so the live feed can redraw every tick without drifting.
+ */
+
+import type { AnchoredVWAP, Candle, KillzoneName, Timeframe, VWAPAnchorKind, VWAPEvent } from '../types';
+import { KILLZONE_DEFS, MMT_OFFSET_MIN, TIMEFRAME_MINUTES, localClock, killzoneWindow } from './sessions';
+
+/** Events kept on the tracker (newest last) */
+export const VWAP_EVENT_HISTORY = 50;
+
+const ANCHOR_ORDER: VWAPAnchorKind[] = ['DAY', 'WEEK', 'AKZ', 'LKZ', 'NYKZ', 'SWING'];
+
+interface AnchorState {
+  id: string;
+  kind: VWAPAnchorKind;
+  anchorTime: number;
+  day: number;           // local day the anchor started on
+  pv: number;            // Σ typical·volume
+  p2v: number;           // Σ typical²·volume
+  v: number;
+  bars: number;
+  lastClose: number | null;
+  lastVWAP: number | null;
+}
+
+export interface VWAPTracker {
+  timeframe: Timeframe;
+  tzOffsetMin: number;
+  day: number | null;
+  week: number | null;
+  anchors: Partial<Record<VWAPAnchorKind, AnchorState>>;
+  events: VWAPEvent[];
+}
+
+export function createVWAPTracker(timeframe: Timeframe, tzOffsetMin = MMT_OFFSET_MIN): VWAPTracker {
+  return { timeframe, tzOffsetMin, day: null, week: null, anchors: {}, events: [] };
+}
+
+// ─── UPDATE ───────────────────────────────────────────────────────────────────
+
+/**
+ * Commit one closed candle. Day / week anchors restart on a new local day / week,
+ * killzone anchors on the first bar inside each window (intraday timeframes only);
+ * a killzone VWAP keeps running after its window until the next one opens.
+ * Returns the reclaim / loss events this close produced.
+ */
+export function updateVWAPTracker(t: VWAPTracker, c: Candle): VWAPEvent[] {
+  const tfMin = TIMEFRAME_MINUTES[t.timeframe];
+  const { day, minute } = localClock(c.time, t.tzOffsetMin);
+  const week = Math.floor((day + 3) / 7); // Monday-based weeks
+
+  if (tfMin < 1440 && day !== t.day) t.anchors.DAY = newAnchor('DAY', c.time, day);
+  if (tfMin < 10080 && week !== t.week) t.anchors.WEEK = newAnchor('WEEK', c.time, day);
+  if (tfMin <= 60) {
+    for (const kz of KILLZONE_DEFS) {
+      const name = kz.name as Exclude<KillzoneName, 'IDLE'>;
+      const { start, end } = killzoneWindow(name);
+      if (minute >= start && minute < end && t.anchors[name]?.day !== day) {
+        t.anchors[name] = newAnchor(name, c.time, day);
+      }
+    }
+  }
+  t.day = day;
+  t.week = week;
+
+  const events: VWAPEvent[] = [];
+  for (const kind of ANCHOR_ORDER) {
+    const a = t.anchors[kind];
+    if (!a || c.time < a.anchorTime) continue;
+    const ev = addCandle(a, c);
+    if (ev) events.push(ev);
+  }
+  t.events = [...t.events, ...events].slice(-VWAP_EVENT_HISTORY);
+  return events;
+}
+
+/**
+ * Anchor the SWING VWAP at `time` (a swing from detectSwings) and replay the
+ * closed candles since then; `time` null removes it. Replayed bars emit no events.
+ */
+export function setSwingAnchor(t: VWAPTracker, closed: Candle[], time: number | null): void {
+  delete t.anchors.SWING;
+  if (time === null) return;
+  const a = newAnchor('SWING', time, localClock(time, t.tzOffsetMin).day);
+  for (const c of closed) if (c.time >= time) addCandle(a, c);
+  t.anchors.SWING = a;
+}
+
+/** Current values of every anchor, in ANCHOR_ORDER */
+export function vwapSnapshot(t: VWAPTracker): AnchoredVWAP[] {
+  const out: AnchoredVWAP[] = [];
+  for (const kind of ANCHOR_ORDER) {
+    const a = t.anchors[kind];
+    if (a && a.v > 0) out.push(toVWAP(a));
+  }
+  return out;
+}
+
+/** Values as if `forming` closed now — the tracker itself is not changed */
+export function previewVWAP(t: VWAPTracker, forming: Candle): AnchoredVWAP[] {
+  const copy: VWAPTracker = { ...t, anchors: {}, events: [] };
+  for (const kind of ANCHOR_ORDER) {
+    const a = t.anchors[kind];
+    if (a) copy.anchors[kind] = { ...a };
+  }
+  updateVWAPTracker(copy, forming);
+  return vwapSnapshot(copy);
+}
+
+/** Batch: run a fresh tracker over closed candles */
+export function calcAnchoredVWAP(
+  candles: Candle[],
+  timeframe: Timeframe,
+  swingTime: number | null = null,
+  tzOffsetMin = MMT_OFFSET_MIN
+): { vwaps: AnchoredVWAP[]; events: VWAPEvent[] } {
+  const t = createVWAPTracker(timeframe, tzOffsetMin);
+  for (const c of candles) updateVWAPTracker(t, c);
+  setSwingAnchor(t, candles, swingTime);
+  return { vwaps: vwapSnapshot(t), events: t.events };
+}
+
+/** Events from the last `withinBars` bars, newest last */
+export function recentVWAPEvents(events: VWAPEvent[], lastTime: number, timeframe: Timeframe, withinBars = 3): VWAPEvent[] {
+  const span = withinBars * TIMEFRAME_MINUTES[timeframe] * 60000;
+  return events.filter(e => lastTime - e.time < span);
+}
+
+// ─── HELPERS ──────────────────────────────────────────────────────────────────
+
+function newAnchor(kind: VWAPAnchorKind, time: number, day: number): AnchorState {
+  return {
+    id: `vwap_${kind}_${time}`, kind, anchorTime: time, day,
+    pv: 0, p2v: 0, v: 0, bars: 0, lastClose: null, lastVWAP: null,
+  };
+}
+
+/** Accumulate one candle; returns a reclaim / loss event if the close crossed the VWAP */
+function addCandle(a: AnchorState, c: Candle): VWAPEvent | null {
+  const typical = (c.high + c.low + c.close) / 3;
+  a.pv += typical * c.volume;
+  a.p2v += typical * typical * c.volume;
+  a.v += c.volume;
+  a.bars++;
+  if (a.v === 0) return null;
+
+  const vwap = a.pv / a.v;
+  let ev: VWAPEvent | null = null;
+  if (a.lastClose !== null && a.lastVWAP !== null) {
+    const wasAbove = a.lastClose > a.lastVWAP;
+    const isAbove = c.close > vwap;
+    if (wasAbove !== isAbove) {
+      ev = { type: isAbove ? 'RECLAIM' : 'LOSS', kind: a.kind, anchorId: a.id, vwap, close: c.close, time: c.time };
+    }
+  }
+  a.lastClose = c.close;
+  a.lastVWAP = vwap;
+  return ev;
+}
+
+function toVWAP(a: AnchorState): AnchoredVWAP {
+  const vwap = a.pv / a.v;
+  const stdev = Math.sqrt(Math.max(0, a.p2v / a.v - vwap * vwap));
+  return {
+    id: a.id,
+    kind: a.kind,
+    anchorTime: a.anchorTime,
+    vwap,
+    stdev,
+    upper: [vwap + stdev, vwap + 2 * stdev, vwap + 3 * stdev],
+    lower: [vwap - stdev, vwap - 2 * stdev, vwap - 3 * stdev],
+    volume: a.v,
+    bars: a.bars,
+  };
+}